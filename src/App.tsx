@@ -7,11 +7,57 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AnimatePresence } from 'motion/react';
 import { Layout } from '@/components/Layout';
-import { SetupView, SchemaView, QueryView, VisualizationView, MonitoringView } from '@/components/views';
+import { SetupView, SchemaView, QueryView, VisualizationView, CompareView, MonitoringView } from '@/components/views';
 import { useAppStore } from '@/store';
 import { useInitSession, useCleanupSession } from '@/hooks/useApi';
+import { useSharedQuery, type SharedQueryStatus } from '@/hooks/useSharedQuery';
+import { useTabRestore } from '@/hooks/useTabRestore';
+import { api, configureApi, clearStoredSession, type SessionRecovery } from '@/api/client';
+import { hasSharedQuery } from '@/lib/permalink';
+import { showToast } from '@/store/toast';
 import './App.css';
 
+// VITE_SQL_ENGINE=local runs every query in the browser instead of on the server
+if (import.meta.env.VITE_SQL_ENGINE === 'local') {
+  configureApi({ engine: 'local' });
+}
+
+// The client has already moved to a new session and replayed the setup; catch the UI up
+function handleSessionExpired({ sessionId, replayedScripts, totalScripts, replayError }: SessionRecovery) {
+  const store = useAppStore.getState();
+  store.setSessionId(sessionId);
+
+  api.getTables(sessionId)
+    .then((response) => {
+      store.setTables(response.tables);
+      store.setTableData(response.tableData);
+      store.setERDiagram(response.erDiagram || null);
+    })
+    .catch((error) => console.error('Lỗi khi làm mới bảng dữ liệu:', error));
+
+  if (replayError) {
+    showToast({
+      kind: 'error',
+      title: 'Phiên làm việc đã hết hạn',
+      message: `Đã tạo phiên mới nhưng chỉ chạy lại được ${replayedScripts}/${totalScripts} script thiết lập: ${replayError.message}`,
+    }, 10000);
+  } else if (totalScripts > 0) {
+    showToast({
+      kind: 'info',
+      title: 'Phiên làm việc đã hết hạn',
+      message: `Đã tạo phiên mới và chạy lại ${totalScripts} script thiết lập để khôi phục các bảng của bạn.`,
+    });
+  } else {
+    showToast({
+      kind: 'info',
+      title: 'Phiên làm việc đã hết hạn',
+      message: 'Đã tạo phiên mới. Hãy chạy lại SQL thiết lập để tạo bảng.',
+    });
+  }
+}
+
+configureApi({ onSessionExpired: handleSessionExpired });
+
 // Create React Query client
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -27,10 +73,14 @@ function MainApp() {
   const { currentView, sessionId } = useAppStore();
   const initSession = useInitSession();
   const cleanupSession = useCleanupSession();
+  const sharedQuery = useSharedQuery();
+  useTabRestore();
 
-  // Initialize session on mount
+  // Initialize session on mount; a shared link gets a fresh one so its setup
+  // script does not collide with tables left in the previous session
   useEffect(() => {
     if (!sessionId) {
+      if (hasSharedQuery()) clearStoredSession();
       initSession.mutate();
     }
   }, []);
@@ -52,6 +102,8 @@ function MainApp() {
         return <QueryView />;
       case 'visualization':
         return <VisualizationView />;
+      case 'compare':
+        return <CompareView />;
       default:
         return <SetupView />;
     }
@@ -59,6 +111,7 @@ function MainApp() {
 
   return (
     <Layout>
+      <SharedQueryNotice status={sharedQuery.status} onDismiss={sharedQuery.dismiss} />
       <AnimatePresence mode="wait">
         {renderView()}
       </AnimatePresence>
@@ -66,6 +119,31 @@ function MainApp() {
   );
 }
 
+function SharedQueryNotice({ status, onDismiss }: { status: SharedQueryStatus; onDismiss: () => void }) {
+  if (status.kind === 'idle') return null;
+
+  if (status.kind === 'loading') {
+    return (
+      <div className="mb-6 p-4 bg-violet-900/20 border border-violet-500/30 rounded-xl flex items-center gap-3 text-sm text-violet-200">
+        <div className="w-4 h-4 border-2 border-violet-300/30 border-t-violet-300 rounded-full animate-spin" />
+        Đang mở link chia sẻ...
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-red-900/30 border border-red-500/30 rounded-xl flex items-start justify-between gap-3">
+      <div>
+        <h4 className="font-semibold text-red-300">Không mở được link chia sẻ</h4>
+        <p className="text-sm text-red-200/80 mt-1">{status.message}</p>
+      </div>
+      <button onClick={onDismiss} className="text-sm text-red-300/70 hover:text-red-200">
+        Đóng
+      </button>
+    </div>
+  );
+}
+
 function MonitorPage() {
   return (
     <div className="min-h-screen w-full bg-linear-to-br from-zinc-950 via-zinc-900 to-zinc-950">
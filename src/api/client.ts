@@ -17,6 +17,8 @@ import type {
   FeedbackMonitoringData,
   SystemStatusData,
 } from './types';
+import { LocalSqlEngine, SqlEngineError } from '@/lib/sqlEngine';
+import { splitSqlStatements, type SqlStatement } from '@/lib/sqlStatements';
 
 // ============================================
 // Configuration
@@ -24,14 +26,23 @@ import type {
 
 const DEFAULT_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
+/** `local` answers every request with the in-browser engine instead of the server */
+export type SqlEngineMode = 'remote' | 'local';
+
 interface ApiClientConfig {
   baseUrl?: string;
+  engine?: SqlEngineMode;
   onError?: (error: ApiError) => void;
-  onSessionExpired?: () => void;
+  /**
+   * Called when a request hit an expired session and the client has moved to
+   * a fresh one, with the recorded setup scripts replayed into it
+   */
+  onSessionExpired?: (recovery: SessionRecovery) => void;
 }
 
 let config: ApiClientConfig = {
   baseUrl: DEFAULT_BASE_URL,
+  engine: 'remote',
 };
 
 export function configureApi(newConfig: ApiClientConfig): void {
@@ -95,10 +106,6 @@ async function request<T>(
       const errorMessage = error?.message ?? 'Unknown error';
       const errorDetails = error?.details;
 
-      if (errorCode === 'SESSION_NOT_FOUND' && config.onSessionExpired) {
-        config.onSessionExpired();
-      }
-
       if (config.onError && error) {
         config.onError(error);
       }
@@ -133,6 +140,185 @@ async function request<T>(
   }
 }
 
+// ============================================
+// Local Engine
+// ============================================
+
+const localEngine = new LocalSqlEngine();
+
+const isLocal = () => config.engine === 'local';
+
+/** Runs a request against the local engine, reporting errors like `request` does */
+async function localRequest<T>(run: () => T): Promise<T> {
+  try {
+    return run();
+  } catch (error) {
+    if (!(error instanceof SqlEngineError)) {
+      throw error;
+    }
+
+    if (config.onError) {
+      config.onError({ code: error.code, message: error.message, details: error.details });
+    }
+
+    throw new ApiClientError(error.code, error.message, error.details);
+  }
+}
+
+function localUnavailable<T>(feature: string): Promise<T> {
+  return localRequest<T>(() => {
+    throw new SqlEngineError('NOT_FOUND', `${feature} is not available with the local engine`);
+  });
+}
+
+// ============================================
+// Session Recovery
+// ============================================
+
+export interface SessionRecovery {
+  expiredSessionId: string;
+  /** Replacement session, already holding the replayed setup */
+  sessionId: string;
+  /** Setup scripts run again, oldest first */
+  replayedScripts: number;
+  totalScripts: number;
+  /** Set when a script failed to replay; the ones after it were skipped */
+  replayError?: ApiClientError;
+}
+
+const SETUP_STORAGE_KEY = 'sql-viz-setup-scripts';
+
+/** Scripts that ran successfully in a session, in order, to rebuild it elsewhere */
+interface SetupRecord {
+  sessionId: string;
+  scripts: string[];
+}
+
+function readSetupScripts(sessionId: string): string[] {
+  try {
+    const record = JSON.parse(localStorage.getItem(SETUP_STORAGE_KEY) ?? 'null') as SetupRecord | null;
+    return record?.sessionId === sessionId ? record.scripts : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSetupScripts(sessionId: string, scripts: string[]): void {
+  try {
+    localStorage.setItem(SETUP_STORAGE_KEY, JSON.stringify({ sessionId, scripts } satisfies SetupRecord));
+  } catch (error) {
+    // Recovery is best effort; the script itself already ran
+    console.warn('Không thể lưu script thiết lập:', error);
+  }
+}
+
+/** Index of the statement a failed script stopped at, from `statementIndex` or an `offset` into the script */
+function failedStatementIndex(statements: SqlStatement[], error: unknown): number | null {
+  const details = error instanceof ApiClientError && typeof error.details === 'object' && error.details !== null
+    ? (error.details as { statementIndex?: unknown; offset?: unknown })
+    : {};
+  if (typeof details.statementIndex === 'number') return details.statementIndex;
+  if (typeof details.offset === 'number') {
+    const offset = details.offset;
+    // An offset between statements belongs to the one that follows
+    const index = statements.findIndex((statement) => offset < statement.end);
+    return index === -1 ? null : index;
+  }
+  return null;
+}
+
+/**
+ * The statements of `sql` that took effect: those reported successful, and on
+ * a failure the ones before the failing statement (they stay applied). When
+ * the failure cannot be placed, nothing is recorded.
+ */
+function appliedStatements(sql: string, results: ExecuteSQLResponse[] | null, error?: unknown): string[] {
+  const statements = splitSqlStatements(sql);
+  if (results) {
+    return statements.filter((_, index) => results[index]?.success !== false).map((statement) => statement.text);
+  }
+  const failedIndex = failedStatementIndex(statements, error);
+  return failedIndex === null ? [] : statements.slice(0, failedIndex).map((statement) => statement.text);
+}
+
+/** `fromScratch` starts the record over, e.g. when the setup runs against an empty session */
+function recordSetupScript(sessionId: string, statements: string[], fromScratch: boolean): void {
+  const previous = fromScratch ? [] : readSetupScripts(sessionId);
+  const script = statements.length > 0 ? [`${statements.join(';\n')};`] : [];
+  writeSetupScripts(sessionId, [...previous, ...script]);
+}
+
+const executeMultiple = (sessionId: string, sql: string): Promise<ExecuteSQLResponse[]> =>
+  isLocal()
+    ? localRequest(() => localEngine.executeMultipleSQL(sessionId, sql))
+    : request<ExecuteSQLResponse[]>('/api/sql/execute-multiple', {
+        method: 'POST',
+        data: { sessionId, sql },
+      });
+
+/** Creates a new session and replays the expired one's setup into it */
+async function replaceSession(expiredSessionId: string): Promise<string> {
+  const { sessionId } = await api.createSession();
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+
+  const scripts = readSetupScripts(expiredSessionId);
+  let replayedScripts = 0;
+  let replayError: ApiClientError | undefined;
+  for (const script of scripts) {
+    try {
+      await executeMultiple(sessionId, script);
+      replayedScripts++;
+    } catch (error) {
+      replayError = error instanceof ApiClientError
+        ? error
+        : new ApiClientError('UNKNOWN_ERROR', error instanceof Error ? error.message : String(error));
+      break;
+    }
+  }
+  writeSetupScripts(sessionId, scripts.slice(0, replayedScripts));
+
+  config.onSessionExpired?.({
+    expiredSessionId,
+    sessionId,
+    replayedScripts,
+    totalScripts: scripts.length,
+    replayError,
+  });
+  return sessionId;
+}
+
+// Expired session -> its replacement; requests that overlap the expiry share one recovery
+const replacedSessions = new Map<string, Promise<string>>();
+
+function recover(expiredSessionId: string): Promise<string> {
+  let replacement = replacedSessions.get(expiredSessionId);
+  if (!replacement) {
+    replacement = replaceSession(expiredSessionId);
+    replacedSessions.set(expiredSessionId, replacement);
+    replacement.catch(() => replacedSessions.delete(expiredSessionId));
+  }
+  return replacement;
+}
+
+/**
+ * Runs a session-scoped request. If the session has expired, it is replaced
+ * (see `replaceSession`) and the request is retried once against the new one.
+ */
+async function withSession<T>(sessionId: string, call: (sessionId: string) => Promise<T>): Promise<T> {
+  // Callers may still hold the id of a session that was already replaced
+  const replacement = replacedSessions.get(sessionId);
+  const activeSessionId = replacement ? await replacement : sessionId;
+
+  try {
+    return await call(activeSessionId);
+  } catch (error) {
+    if (!(error instanceof ApiClientError) || error.code !== 'SESSION_NOT_FOUND') {
+      throw error;
+    }
+    return call(await recover(activeSessionId));
+  }
+}
+
 // ============================================
 // API Methods
 // ============================================
@@ -140,57 +326,109 @@ async function request<T>(
 export const api = {
   // Sessions
   createSession: (): Promise<CreateSessionResponse> =>
-    request<CreateSessionResponse>('/api/sessions', { method: 'POST' }),
+    isLocal()
+      ? localRequest(() => localEngine.createSession())
+      : request<CreateSessionResponse>('/api/sessions', { method: 'POST' }),
 
   getSession: (sessionId: string): Promise<Session> =>
-    request<Session>(`/api/sessions/${sessionId}`),
+    isLocal()
+      ? localRequest(() => localEngine.getSession(sessionId))
+      : request<Session>(`/api/sessions/${sessionId}`),
 
   deleteSession: (sessionId: string): Promise<{ deleted: boolean }> =>
-    request<{ deleted: boolean }>(`/api/sessions/${sessionId}`, { method: 'DELETE' }),
+    isLocal()
+      ? localRequest(() => localEngine.deleteSession(sessionId))
+      : request<{ deleted: boolean }>(`/api/sessions/${sessionId}`, { method: 'DELETE' }),
 
   listSessions: (): Promise<SessionStatsResponse> =>
-    request<SessionStatsResponse>('/api/sessions'),
+    isLocal()
+      ? localRequest(() => {
+          const sessions = localEngine.listSessions();
+          return { activeSessionCount: sessions.length, sessions };
+        })
+      : request<SessionStatsResponse>('/api/sessions'),
 
   // SQL Execution
   executeSQL: (sessionId: string, sql: string): Promise<ExecuteSQLResponse> =>
-    request<ExecuteSQLResponse>('/api/sql/execute', {
-      method: 'POST',
-      data: { sessionId, sql },
-    }),
-
-  executeMultipleSQL: (sessionId: string, sql: string): Promise<ExecuteSQLResponse[]> =>
-    request<ExecuteSQLResponse[]>('/api/sql/execute-multiple', {
-      method: 'POST',
-      data: { sessionId, sql },
+    withSession(sessionId, (id) =>
+      isLocal()
+        ? localRequest(() => localEngine.executeSQL(id, sql))
+        : request<ExecuteSQLResponse>('/api/sql/execute', {
+            method: 'POST',
+            data: { sessionId: id, sql },
+          })
+    ),
+
+  /**
+   * Statements that took effect are recorded so an expired session can be
+   * rebuilt; `fromScratch` drops what was recorded before, `record: false`
+   * leaves the record alone (e.g. building a session not in use yet)
+   */
+  executeMultipleSQL: (
+    sessionId: string,
+    sql: string,
+    options: { fromScratch?: boolean; record?: boolean } = {}
+  ): Promise<ExecuteSQLResponse[]> =>
+    withSession(sessionId, async (id) => {
+      const { fromScratch = false, record = true } = options;
+      let results: ExecuteSQLResponse[];
+      try {
+        results = await executeMultiple(id, sql);
+      } catch (error) {
+        if (record) recordSetupScript(id, appliedStatements(sql, null, error), fromScratch);
+        throw error;
+      }
+      if (record) recordSetupScript(id, appliedStatements(sql, results), fromScratch);
+      return results;
     }),
 
   // Tables
   getTables: (sessionId: string): Promise<GetTablesResponse> =>
-    request<GetTablesResponse>(`/api/sql/tables/${sessionId}`),
+    withSession(sessionId, (id) =>
+      isLocal()
+        ? localRequest(() => localEngine.getTables(id))
+        : request<GetTablesResponse>(`/api/sql/tables/${id}`)
+    ),
 
   getTableData: (sessionId: string, tableName: string): Promise<TableData> =>
-    request<TableData>(`/api/sql/tables/${sessionId}/${tableName}`),
+    withSession(sessionId, (id) =>
+      isLocal()
+        ? localRequest(() => localEngine.getTableData(id, tableName))
+        : request<TableData>(`/api/sql/tables/${id}/${tableName}`)
+    ),
 
   // Visualization
   visualizeQuery: (sessionId: string, query: string): Promise<VisualizeQueryResponse> =>
-    request<VisualizeQueryResponse>('/api/sql/visualize', {
-      method: 'POST',
-      data: { sessionId, query },
-    }),
+    withSession(sessionId, (id) =>
+      isLocal()
+        ? localRequest(() => localEngine.visualizeQuery(id, query))
+        : request<VisualizeQueryResponse>('/api/sql/visualize', {
+            method: 'POST',
+            data: { sessionId: id, query },
+          })
+    ),
 
   // Health
   healthCheck: (): Promise<{ status: string; timestamp: string }> =>
-    request<{ status: string; timestamp: string }>('/api/health'),
+    isLocal()
+      ? localRequest(() => ({ status: 'ok', timestamp: new Date().toISOString() }))
+      : request<{ status: string; timestamp: string }>('/api/health'),
 
   // Monitoring
   getDatabaseStatus: (): Promise<DatabaseMonitoringData> =>
-    request<DatabaseMonitoringData>('/api/monitoring/database'),
+    isLocal()
+      ? localUnavailable('Database monitoring')
+      : request<DatabaseMonitoringData>('/api/monitoring/database'),
 
   getFeedbackStatus: (): Promise<FeedbackMonitoringData> =>
-    request<FeedbackMonitoringData>('/api/monitoring/feedback'),
+    isLocal()
+      ? localUnavailable('Feedback monitoring')
+      : request<FeedbackMonitoringData>('/api/monitoring/feedback'),
 
   getSystemStatus: (): Promise<SystemStatusData> =>
-    request<SystemStatusData>('/api/monitoring/status'),
+    isLocal()
+      ? localUnavailable('System status')
+      : request<SystemStatusData>('/api/monitoring/status'),
 };
 
 // ============================================
@@ -206,7 +444,15 @@ export async function initSession(): Promise<string> {
     try {
       await api.getSession(existingSessionId);
       return existingSessionId;
-    } catch {
+    } catch (error) {
+      // An expired session with recorded setup is rebuilt rather than started empty
+      if (
+        error instanceof ApiClientError &&
+        error.code === 'SESSION_NOT_FOUND' &&
+        readSetupScripts(existingSessionId).length > 0
+      ) {
+        return recover(existingSessionId);
+      }
       localStorage.removeItem(SESSION_STORAGE_KEY);
     }
   }
@@ -220,8 +466,18 @@ export function getStoredSessionId(): string | null {
   return localStorage.getItem(SESSION_STORAGE_KEY);
 }
 
+export function setStoredSessionId(sessionId: string): void {
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+}
+
+/** Replaces the setup recorded for replay, e.g. once an imported session is in use */
+export function setStoredSetupScripts(sessionId: string, scripts: string[]): void {
+  writeSetupScripts(sessionId, scripts);
+}
+
 export function clearStoredSession(): void {
   localStorage.removeItem(SESSION_STORAGE_KEY);
+  localStorage.removeItem(SETUP_STORAGE_KEY);
 }
 
 export type {
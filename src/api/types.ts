@@ -145,6 +145,29 @@ export interface RowState {
   data: Record<string, unknown>;
   included: boolean;
   excludedReason?: string;
+  /** Identifies the same logical row across steps; derived client-side when absent */
+  rowId?: string;
+  /** Ids of the previous step's rows this row was derived from */
+  sourceRowIds?: string[];
+  /** How the step's WHERE/HAVING condition evaluated for this row */
+  evaluation?: PredicateTrace;
+}
+
+export type TruthValue = 'TRUE' | 'FALSE' | 'UNKNOWN';
+
+/** One sub-expression of a WHERE/HAVING condition, evaluated for a single row */
+export interface PredicateTrace {
+  /** Source text of the sub-expression */
+  text: string;
+  /** Offsets into the text of the whole condition, end exclusive */
+  start: number;
+  end: number;
+  /** `AND`, `>`, `IS NULL`, ... for operators; absent for columns, literals and calls */
+  operator?: string;
+  value: unknown;
+  /** Set on conditions (comparisons, AND/OR/NOT, IS NULL, IN, BETWEEN, LIKE) and on the root */
+  truth?: TruthValue;
+  children: PredicateTrace[];
 }
 
 export interface DataFlowStep {
@@ -0,0 +1,188 @@
+/**
+ * Cell Value - one table cell rendered according to its column's kind
+ */
+
+import { useState } from 'react';
+import { CheckIcon, XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  LONG_TEXT_LENGTH,
+  formatDate,
+  formatJson,
+  formatNumber,
+  parseBoolean,
+  searchText,
+  type CellKind,
+} from '@/lib/cellFormat';
+
+interface CellValueProps {
+  value: unknown;
+  kind: CellKind;
+  /** Global search text to highlight */
+  search?: string;
+}
+
+// Collapsed JSON shows this many lines
+const JSON_PREVIEW_LINES = 4;
+
+const needleOf = (query = '') => query.trim().toLowerCase();
+
+/** Wraps every occurrence of `query` in a highlight mark */
+function highlightMatches(text: string, query = ''): React.ReactNode {
+  const needle = needleOf(query);
+  if (!needle) return text;
+
+  const parts: React.ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let start = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, start)) {
+    if (at > start) parts.push(text.slice(start, at));
+    parts.push(
+      <mark key={at} className="bg-amber-400/30 text-amber-100 rounded-sm">
+        {text.slice(at, at + needle.length)}
+      </mark>
+    );
+    start = at + needle.length;
+  }
+  if (start < text.length) parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * The table filter matches raw values (see `searchText`), so when the search
+ * is only in the raw text, that is shown instead of the formatted one
+ */
+function displayText(formatted: string, value: unknown, search?: string): string {
+  const needle = needleOf(search);
+  if (!needle || formatted.toLowerCase().includes(needle)) return formatted;
+  const raw = searchText(value);
+  return raw.toLowerCase().includes(needle) ? raw : formatted;
+}
+
+export function CellValue({ value, kind, search }: CellValueProps) {
+  if (value === null || value === undefined) {
+    return <span className="text-zinc-500 italic">{highlightMatches('NULL', search)}</span>;
+  }
+  if (value === '') {
+    return (
+      <span className="px-1 rounded border border-dashed border-zinc-700 text-zinc-600 text-xs" title="Chuỗi rỗng">
+        ''
+      </span>
+    );
+  }
+
+  if (kind === 'number') {
+    const formatted = formatNumber(value);
+    if (formatted !== null) {
+      return (
+        <span className="block text-right tabular-nums" title={String(value)}>
+          {highlightMatches(displayText(formatted, value, search), search)}
+        </span>
+      );
+    }
+  }
+
+  if (kind === 'date') {
+    const formatted = formatDate(value);
+    if (formatted !== null) {
+      return (
+        <span className="whitespace-nowrap" title={String(value)}>
+          {highlightMatches(displayText(formatted, value, search), search)}
+        </span>
+      );
+    }
+  }
+
+  if (kind === 'boolean') {
+    const flag = parseBoolean(value);
+    if (flag !== null) {
+      const isMatch = !!needleOf(search) && searchText(value).toLowerCase().includes(needleOf(search));
+      return (
+        <span
+          className={cn('inline-flex', isMatch && 'rounded-sm bg-amber-400/30')}
+          title={`${flag ? 'TRUE' : 'FALSE'} (${String(value)})`}
+        >
+          {flag ? (
+            <CheckIcon className="w-4 h-4 text-emerald-400" aria-label="TRUE" />
+          ) : (
+            <XIcon className="w-4 h-4 text-red-400" aria-label="FALSE" />
+          )}
+        </span>
+      );
+    }
+  }
+
+  if (kind === 'json') {
+    const formatted = formatJson(value);
+    if (formatted !== null) return <JsonCell text={displayText(formatted, value, search)} search={search} />;
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > LONG_TEXT_LENGTH ? <LongTextCell text={text} search={search} /> : <>{highlightMatches(text, search)}</>;
+}
+
+// ============================================
+// Expandable Cells
+// ============================================
+
+interface ExpandableCellProps {
+  text: string;
+  search?: string;
+}
+
+/** Toggles without also clicking the row (rows pin their lineage on click) */
+function ExpandToggle({ expanded, onToggle }: { expanded: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={(event) => {
+        event.stopPropagation();
+        onToggle();
+      }}
+      className="ml-1.5 text-xs text-violet-300 hover:text-violet-200 whitespace-nowrap"
+    >
+      {expanded ? 'Thu gọn' : 'Xem thêm'}
+    </button>
+  );
+}
+
+/** The collapsed text: the start, or the stretch around the first match when it lies further in */
+function textPreview(text: string, search?: string): string {
+  const needle = needleOf(search);
+  const at = needle ? text.toLowerCase().indexOf(needle) : -1;
+  if (at === -1 || at + needle.length <= LONG_TEXT_LENGTH) return `${text.slice(0, LONG_TEXT_LENGTH)}…`;
+
+  const from = Math.max(0, Math.min(at - Math.floor((LONG_TEXT_LENGTH - needle.length) / 2), text.length - LONG_TEXT_LENGTH));
+  const to = from + LONG_TEXT_LENGTH;
+  return `${from > 0 ? '…' : ''}${text.slice(from, to)}${to < text.length ? '…' : ''}`;
+}
+
+function LongTextCell({ text, search }: ExpandableCellProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <span className={cn('inline-block max-w-md', expanded ? 'whitespace-pre-wrap wrap-break-word' : 'whitespace-nowrap')}>
+      {highlightMatches(expanded ? text : textPreview(text, search), search)}
+      <ExpandToggle expanded={expanded} onToggle={() => setExpanded((open) => !open)} />
+    </span>
+  );
+}
+
+function JsonCell({ text, search }: ExpandableCellProps) {
+  const [expanded, setExpanded] = useState(false);
+  const lines = text.split('\n');
+  const isLong = lines.length > JSON_PREVIEW_LINES;
+  const preview = lines.slice(0, JSON_PREVIEW_LINES).join('\n');
+  // A match past the preview opens the whole value so it can be seen
+  const needle = needleOf(search);
+  const matchHidden = !!needle && !preview.toLowerCase().includes(needle) && text.toLowerCase().includes(needle);
+  const shown = expanded || !isLong || matchHidden ? text : `${preview}\n…`;
+
+  return (
+    <div>
+      <pre className="font-mono text-xs text-sky-200/90 whitespace-pre">{highlightMatches(shown, search)}</pre>
+      {isLong && (expanded || !matchHidden) && (
+        <ExpandToggle expanded={expanded} onToggle={() => setExpanded((open) => !open)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Column Profile Panel - null/distinct counts, numeric summary, frequent values
+ * and a histogram for every column of a table
+ */
+
+import { motion } from 'motion/react';
+import { formatNumber } from '@/lib/cellFormat';
+import { valueLabel, type ColumnProfile } from '@/lib/columnProfile';
+
+interface ColumnProfilePanelProps {
+  profiles: ColumnProfile[];
+  /** What the statistics were computed over, e.g. "5 dòng đúng yêu cầu" */
+  basis: string;
+}
+
+const KIND_LABELS: Record<ColumnProfile['kind'], string> = {
+  number: 'số',
+  date: 'ngày giờ',
+  boolean: 'boolean',
+  json: 'JSON',
+  text: 'chuỗi',
+};
+
+export function ColumnProfilePanel({ profiles, basis }: ColumnProfilePanelProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="overflow-hidden border-b border-white/10"
+    >
+      <div className="p-4 space-y-3">
+        <p className="text-xs text-zinc-500">Thống kê trên {basis}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+          {profiles.map((profile) => (
+            <ProfileCard key={profile.column} profile={profile} />
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function ProfileCard({ profile }: { profile: ColumnProfile }) {
+  const maxTopCount = profile.topValues[0]?.count ?? 0;
+
+  return (
+    <div className="p-3 rounded-xl bg-zinc-800/40 border border-white/5 text-xs space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-zinc-200 truncate">{profile.column}</span>
+        <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-500">{KIND_LABELS[profile.kind]}</span>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+        <Stat label="NULL" value={`${profile.nullCount} / ${profile.rowCount}`} />
+        <Stat label="Khác nhau" value={String(profile.distinctCount)} />
+        {profile.numeric && (
+          <>
+            <Stat label="Nhỏ nhất" value={formatNumber(profile.numeric.min) ?? ''} />
+            <Stat label="Lớn nhất" value={formatNumber(profile.numeric.max) ?? ''} />
+            <Stat label="Trung bình" value={formatNumber(profile.numeric.mean) ?? ''} />
+          </>
+        )}
+        {profile.range && (
+          <>
+            <Stat label="Sớm nhất" value={profile.range.min} />
+            <Stat label="Muộn nhất" value={profile.range.max} />
+          </>
+        )}
+      </dl>
+
+      {profile.histogram && <Histogram bins={profile.histogram} />}
+
+      {profile.topValues.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-zinc-500">Giá trị thường gặp</p>
+          {profile.topValues.map((entry, index) => (
+            <div key={index} className="relative flex items-center justify-between gap-2 px-1.5 py-0.5 rounded">
+              <div
+                className="absolute inset-y-0 left-0 rounded bg-violet-500/15"
+                style={{ width: `${(entry.count / maxTopCount) * 100}%` }}
+              />
+              <span className="relative font-mono text-zinc-300 truncate">{valueLabel(entry.value)}</span>
+              <span className="relative text-zinc-500 tabular-nums">{entry.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <dt className="text-zinc-500">{label}</dt>
+      <dd className="text-zinc-300 tabular-nums truncate">{value}</dd>
+    </div>
+  );
+}
+
+function Histogram({ bins }: { bins: NonNullable<ColumnProfile['histogram']> }) {
+  const maxCount = Math.max(...bins.map((bin) => bin.count), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-12">
+        {bins.map((bin, index) => (
+          <div
+            key={index}
+            className="flex-1 rounded-t-sm bg-emerald-500/50 hover:bg-emerald-400/70 transition-colors"
+            style={{ height: `${Math.max((bin.count / maxCount) * 100, bin.count > 0 ? 6 : 0)}%` }}
+            title={`${formatNumber(bin.from)} – ${formatNumber(bin.to)}: ${bin.count} dòng`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-zinc-600 tabular-nums">
+        <span>{formatNumber(bins[0].from)}</span>
+        <span>{formatNumber(bins[bins.length - 1].to)}</span>
+      </div>
+    </div>
+  );
+}
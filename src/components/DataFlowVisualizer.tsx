@@ -2,13 +2,26 @@
  * Data Flow Visualizer Component - Shows data transformation at each step
  */
 
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { cn } from '@/lib/utils';
 import { DataTable } from './DataTable';
-import { ExecutionStepper, StepNavigation } from './ExecutionStepper';
-import type { QueryVisualization } from '@/api/types';
+import { ExecutionStepper, StepNavigation, type PlaybackControls } from './ExecutionStepper';
+import { QueryClauseHighlighter } from './QueryClauseHighlighter';
+import { RowLineagePanel } from './RowLineagePanel';
+import { JoinStepView } from './JoinStepView';
+import { GroupStepView } from './GroupStepView';
+import { ExcludedRowsInspector } from './ExcludedRowsInspector';
+import { PredicateTreePanel } from './PredicateTreePanel';
+import { buildRowLineage, relatedRowIds, traceRow } from '@/lib/rowLineage';
+import { analyzeJoin, parseJoinClause, type JoinAnalysis } from '@/lib/joinAnalysis';
+import { analyzeGroups, type GroupAnalysis } from '@/lib/groupAnalysis';
+import { columnTypesFor } from '@/lib/cellFormat';
+import { groupExcludedRows } from '@/lib/excludedRows';
+import { evaluateRow, type RowEvaluation } from '@/lib/predicateEvaluation';
+import type { QueryVisualization, TableData, TableSchema } from '@/api/types';
 import { STEP_COLORS } from '@/api/types';
-import { XIcon } from 'lucide-react';
+import { TableIcon } from 'lucide-react';
 
 interface DataFlowVisualizerProps {
   visualization: QueryVisualization;
@@ -17,6 +30,11 @@ interface DataFlowVisualizerProps {
   onPrev: () => void;
   onNext: () => void;
   onReset: () => void;
+  playback?: PlaybackControls;
+  /** Data of the session's tables, used to show the right-hand side of JOINs */
+  sourceTables?: TableData[];
+  /** Schemas of the session's tables, used to render cells by column type */
+  tableSchemas?: TableSchema[];
 }
 
 export function DataFlowVisualizer({
@@ -26,11 +44,69 @@ export function DataFlowVisualizer({
   onPrev,
   onNext,
   onReset,
+  playback,
+  sourceTables = [],
+  tableSchemas = [],
 }: DataFlowVisualizerProps) {
-  const { executionSteps, dataFlow, originalQuery, finalResult } = visualization;
+  const { executionSteps, originalQuery, finalResult } = visualization;
+  const lineage = useMemo(() => buildRowLineage(visualization.dataFlow), [visualization.dataFlow]);
+  const { dataFlow } = lineage;
   const currentDataFlow = dataFlow[currentStepIndex];
   const isLastStep = currentStepIndex === dataFlow.length - 1;
 
+  // Hovering previews a row's lineage; clicking pins it across steps
+  const [hoveredRowId, setHoveredRowId] = useState<string | null>(null);
+  const [pinnedRowId, setPinnedRowId] = useState<string | null>(null);
+  const tracedRowId = hoveredRowId ?? pinnedRowId;
+  const highlightedRowIds = useMemo(
+    () => (tracedRowId ? relatedRowIds(lineage, tracedRowId) : undefined),
+    [lineage, tracedRowId]
+  );
+  const pinnedTrace = useMemo(
+    () => (pinnedRowId ? traceRow(lineage, pinnedRowId) : null),
+    [lineage, pinnedRowId]
+  );
+  const hasPinnedTrace = !!pinnedTrace?.some((entry) => entry.status !== 'absent');
+
+  const joinAnalysis = useMemo<JoinAnalysis | null>(() => {
+    const previous = dataFlow[currentStepIndex - 1];
+    if (!currentDataFlow || currentDataFlow.stepType !== 'JOIN' || !previous) return null;
+
+    const clause = executionSteps.find((step) => step.order === currentDataFlow.stepOrder)?.clause;
+    const joinedTable = clause ? parseJoinClause(clause)?.table.toLowerCase() : undefined;
+    const rightTable = sourceTables.find((table) => table.tableName.toLowerCase() === joinedTable);
+    if (!clause || !rightTable) return null;
+
+    return analyzeJoin(clause, currentDataFlow, previous, rightTable);
+  }, [dataFlow, currentStepIndex, currentDataFlow, executionSteps, sourceTables]);
+
+  const stepColumnTypes = useMemo(
+    () => (currentDataFlow ? columnTypesFor(currentDataFlow.columns, tableSchemas) : undefined),
+    [currentDataFlow, tableSchemas]
+  );
+  const resultColumnTypes = useMemo(
+    () => columnTypesFor(finalResult.columns, tableSchemas),
+    [finalResult.columns, tableSchemas]
+  );
+
+  const groupAnalysis = useMemo<GroupAnalysis | null>(() => {
+    const stepType = currentDataFlow?.stepType;
+    if (stepType !== 'GROUP BY' && stepType !== 'HAVING') return null;
+
+    const groupIndex = dataFlow.findIndex((step) => step.stepType === 'GROUP BY');
+    const inputStep = dataFlow[groupIndex - 1];
+    const clauseOf = (type: string) => executionSteps.find((step) => step.type === type)?.clause;
+    const groupClause = clauseOf('GROUP BY');
+    if (!inputStep || !groupClause) return null;
+
+    return analyzeGroups({
+      groupClause,
+      aggregateClauses: [clauseOf('SELECT') ?? '', clauseOf('HAVING') ?? ''],
+      inputStep,
+      havingStep: stepType === 'HAVING' ? currentDataFlow : undefined,
+    });
+  }, [dataFlow, currentDataFlow, executionSteps]);
+
   return (
     <div className="space-y-8">
       {/* Original Query Display */}
@@ -45,9 +121,13 @@ export function DataFlowVisualizer({
           </svg>
           <h3 className="font-semibold text-zinc-200">Truy vấn</h3>
         </div>
-        <pre className="text-sm font-mono text-zinc-300 bg-zinc-800/50 rounded-xl p-4 overflow-x-auto whitespace-pre-wrap">
-          {originalQuery}
-        </pre>
+        <QueryClauseHighlighter
+          query={originalQuery}
+          steps={executionSteps}
+          dataFlow={dataFlow}
+          currentStepIndex={currentStepIndex}
+          onStepClick={onStepClick}
+        />
       </motion.div>
 
       {/* Execution Stepper */}
@@ -58,20 +138,41 @@ export function DataFlowVisualizer({
         onStepClick={onStepClick}
       />
 
-      {/* Data Flow Table */}
+      {/* Row Lineage */}
+      <AnimatePresence>
+        {pinnedTrace && hasPinnedTrace && (
+          <RowLineagePanel
+            trace={pinnedTrace}
+            dataFlow={dataFlow}
+            currentStepIndex={currentStepIndex}
+            onStepClick={onStepClick}
+            onClose={() => setPinnedRowId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Data Flow Table - stays mounted so the table can animate the diff between steps */}
       <AnimatePresence mode="wait">
         {currentDataFlow && (
           <motion.div
-            key={currentStepIndex}
-            initial={{ opacity: 0, x: 50 }}
-            animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -50 }}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
             transition={{ duration: 0.3, ease: 'easeInOut' }}
           >
             <DataFlowStepCard
               dataFlow={currentDataFlow}
               stepType={currentDataFlow.stepType}
               isLastStep={isLastStep}
+              highlightedRowIds={highlightedRowIds}
+              onRowHover={setHoveredRowId}
+              onRowClick={(rowId) => setPinnedRowId((pinned) => (pinned === rowId ? null : rowId))}
+              joinAnalysis={joinAnalysis}
+              groupAnalysis={groupAnalysis}
+              columnTypes={stepColumnTypes}
+              clause={executionSteps.find((step) => step.order === currentDataFlow.stepOrder)?.clause}
+              pinnedRowId={pinnedRowId}
+              onUnpin={() => setPinnedRowId(null)}
             />
           </motion.div>
         )}
@@ -98,6 +199,8 @@ export function DataFlowVisualizer({
             columns={finalResult.columns}
             rows={finalResult.rows.map((row) => ({ data: row, included: true }))}
             highlightIncluded={false}
+            exportName="result"
+            columnTypes={resultColumnTypes}
           />
         </motion.div>
       )}
@@ -109,6 +212,7 @@ export function DataFlowVisualizer({
         onPrev={onPrev}
         onNext={onNext}
         onReset={onReset}
+        playback={playback}
       />
     </div>
   );
@@ -122,11 +226,61 @@ interface DataFlowStepCardProps {
   dataFlow: QueryVisualization['dataFlow'][number];
   stepType: string;
   isLastStep: boolean;
+  highlightedRowIds?: ReadonlySet<string>;
+  onRowHover?: (rowId: string | null) => void;
+  onRowClick?: (rowId: string) => void;
+  joinAnalysis?: JoinAnalysis | null;
+  groupAnalysis?: GroupAnalysis | null;
+  columnTypes?: Record<string, string>;
+  /** Clause text of the step, e.g. `WHERE age > 25` */
+  clause?: string;
+  /** Clicked row; on WHERE/HAVING steps its condition is shown evaluated */
+  pinnedRowId?: string | null;
+  onUnpin?: () => void;
 }
 
-function DataFlowStepCard({ dataFlow, stepType, isLastStep }: DataFlowStepCardProps) {
+type PredicateView =
+  | { stepType: 'WHERE' | 'HAVING'; evaluation: RowEvaluation }
+  | { stepType: 'WHERE' | 'HAVING'; error: string };
+
+function DataFlowStepCard({
+  dataFlow,
+  stepType,
+  isLastStep,
+  highlightedRowIds,
+  onRowHover,
+  onRowClick,
+  joinAnalysis,
+  groupAnalysis,
+  columnTypes,
+  clause,
+  pinnedRowId,
+  onUnpin,
+}: DataFlowStepCardProps) {
+  // Grouped steps show buckets first; the flat table stays one click away
+  const [showFlatTable, setShowFlatTable] = useState(false);
+  // The card stays mounted between steps, so a picked reason only applies to the step it was picked on
+  const [reasonSelection, setReasonSelection] = useState<{ stepOrder: number; reason: string | null } | null>(null);
+  const activeReason = reasonSelection?.stepOrder === dataFlow.stepOrder ? reasonSelection.reason : null;
+  const excludedGroups = useMemo(() => groupExcludedRows(dataFlow.rows), [dataFlow.rows]);
+  const markedRowIds = useMemo(() => {
+    const group = excludedGroups.find((g) => g.reason === activeReason);
+    return group ? new Set(group.rows.flatMap((row) => (row.rowId ? [row.rowId] : []))) : undefined;
+  }, [excludedGroups, activeReason]);
   const stepColor = STEP_COLORS[stepType as keyof typeof STEP_COLORS] || '#6366F1';
 
+  const isPredicateStep = stepType === 'WHERE' || stepType === 'HAVING';
+  const predicateView = useMemo<PredicateView | null>(() => {
+    if ((stepType !== 'WHERE' && stepType !== 'HAVING') || !pinnedRowId || !clause) return null;
+    const row = dataFlow.rows.find((r) => r.rowId === pinnedRowId);
+    if (!row) return null;
+    try {
+      return { stepType, evaluation: evaluateRow(clause, row) };
+    } catch (error) {
+      return { stepType, error: error instanceof Error ? error.message : 'Không thể đánh giá điều kiện' };
+    }
+  }, [stepType, pinnedRowId, clause, dataFlow.rows]);
+
   return (
     <div className="bg-zinc-900/50 rounded-2xl border border-white/10 overflow-hidden">
       {/* Header */}
@@ -169,44 +323,81 @@ function DataFlowStepCard({ dataFlow, stepType, isLastStep }: DataFlowStepCardPr
         </div>
       </div>
 
-      {/* Data Table */}
-      <div className="p-6">
-        <DataTable
-          columns={dataFlow.columns}
-          rows={dataFlow.rows}
-          showExcludedRows={true}
-          highlightIncluded={!isLastStep}
-        />
+      {/* JOIN pairs */}
+      {joinAnalysis && (
+        <div className="p-6 border-b border-white/10">
+          <JoinStepView key={dataFlow.stepOrder} analysis={joinAnalysis} />
+        </div>
+      )}
 
-        {/* Excluded Rows Reasons */}
-        {dataFlow.stats.excludedRows > 0 && !isLastStep && (
-          <motion.div
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            transition={{ delay: 0.2 }}
-            className="mt-5 p-4 bg-red-900/20 rounded-xl border border-red-500/20"
+      {/* Groups */}
+      {groupAnalysis && (
+        <div className="p-6 border-b border-white/10">
+          <GroupStepView analysis={groupAnalysis} showHaving={stepType === 'HAVING'} />
+          <button
+            onClick={() => setShowFlatTable((show) => !show)}
+            className="mt-4 flex items-center gap-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
           >
-            <h4 className="text-sm font-medium text-red-300 mb-3">
-              Số Dòng Không Đúng Yêu Cầu ({dataFlow.stats.excludedRows})
-            </h4>
-            <div className="space-y-2">
-              {dataFlow.rows
-                .filter((row) => !row.included && row.excludedReason)
-                .slice(0, 5)
-                .map((row, index) => (
-                  <div key={index} className="text-xs text-red-400/80 flex items-center gap-3">
-                    <span className="text-red-500"><XIcon className="w-4 h-4" /></span>
-                    <span className="font-mono">{JSON.stringify(row.data)}</span>
-                    <span className="text-red-400/60">— {row.excludedReason}</span>
-                  </div>
-                ))}
-              {dataFlow.rows.filter((r) => !r.included).length > 5 && (
-                <div className="text-xs text-red-400/60 mt-2">
-                  ...và {dataFlow.rows.filter((r) => !r.included).length - 5} dòng khác
-                </div>
-              )}
-            </div>
-          </motion.div>
+            <TableIcon className="w-3.5 h-3.5" />
+            {showFlatTable ? 'Ẩn bảng dữ liệu' : 'Hiện bảng dữ liệu'}
+          </button>
+        </div>
+      )}
+
+      {/* Data Table */}
+      <div className="p-6 empty:hidden">
+        {(!groupAnalysis || showFlatTable) && (
+          <DataTable
+            columns={dataFlow.columns}
+            rows={dataFlow.rows}
+            showExcludedRows={true}
+            highlightIncluded={!isLastStep}
+            highlightedRowIds={highlightedRowIds}
+            markedRowIds={markedRowIds}
+            onRowHover={onRowHover}
+            onRowClick={onRowClick}
+            animateChanges
+            columnTypes={columnTypes}
+            exportName={`step_${dataFlow.stepOrder}_${stepType.replace(/\s+/g, '_')}`}
+          />
+        )}
+
+        {/* Predicate Evaluation */}
+        {isPredicateStep && !predicateView && (!groupAnalysis || showFlatTable) && (
+          <p className="mt-3 text-xs text-zinc-500">
+            Bấm vào một dòng để xem điều kiện {stepType} được đánh giá thế nào cho dòng đó.
+          </p>
+        )}
+        <AnimatePresence>
+          {predicateView && 'evaluation' in predicateView && (
+            <PredicateTreePanel
+              stepType={predicateView.stepType}
+              trace={predicateView.evaluation.trace}
+              computedLocally={predicateView.evaluation.computedLocally}
+              onClose={() => onUnpin?.()}
+            />
+          )}
+        </AnimatePresence>
+        {predicateView && 'error' in predicateView && (
+          <p className="mt-3 text-xs text-red-300/80">
+            Không thể đánh giá điều kiện cho dòng này: {predicateView.error}
+          </p>
+        )}
+
+        {/* Excluded Rows */}
+        {excludedGroups.length > 0 && !isLastStep && (
+          <ExcludedRowsInspector
+            groups={excludedGroups}
+            columns={dataFlow.columns}
+            columnTypes={columnTypes}
+            activeReason={activeReason}
+            onReasonChange={(reason) => {
+              setReasonSelection({ stepOrder: dataFlow.stepOrder, reason });
+              // Grouped steps hide the flat table the marks are shown in
+              if (reason) setShowFlatTable(true);
+            }}
+            onRowClick={onRowClick}
+          />
         )}
       </div>
     </div>
@@ -2,17 +2,30 @@
  * Data Table Component using TanStack Table
  */
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import {
   createColumnHelper,
   flexRender,
   getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
   useReactTable,
   type ColumnDef,
+  type ColumnFiltersState,
+  type FilterFn,
+  type SortingFn,
+  type SortingState,
 } from '@tanstack/react-table';
 import { motion, AnimatePresence } from 'motion/react';
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon, BarChart3Icon, FilterIcon, RotateCcwIcon, SearchIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import { columnKind, searchText, type CellKind } from '@/lib/cellFormat';
+import { profileColumns } from '@/lib/columnProfile';
 import type { RowState } from '@/api/types';
+import { CellValue } from './CellValue';
+import { ColumnProfilePanel } from './ColumnProfilePanel';
+import { TableExportMenu } from './TableExportMenu';
 
 interface DataTableProps {
   columns: string[];
@@ -20,57 +33,238 @@ interface DataTableProps {
   tableName?: string;
   showExcludedRows?: boolean;
   highlightIncluded?: boolean;
+  /** Row ids (see `RowState.rowId`) to mark as part of the traced lineage */
+  highlightedRowIds?: ReadonlySet<string>;
+  /** Row ids picked out in the excluded-rows inspector */
+  markedRowIds?: ReadonlySet<string>;
+  onRowHover?: (rowId: string | null) => void;
+  onRowClick?: (rowId: string) => void;
+  /**
+   * Animate the table changing in place: rows glide to their new positions,
+   * removed rows and columns fade/collapse, new columns slide in
+   */
+  animateChanges?: boolean;
+  /** Shows the export menu; the name is used for the file and as the INSERT target */
+  exportName?: string;
+  /** Declared SQL types by column name; untyped columns are rendered by their values */
+  columnTypes?: Record<string, string>;
 }
 
+// Applied to header and body cells so a column enters and leaves as one
+const columnTransition = {
+  initial: { opacity: 0, x: 24 },
+  animate: { opacity: 1, x: 0 },
+  exit: { opacity: 0, width: 0, paddingLeft: 0, paddingRight: 0 },
+  transition: { duration: 0.35, ease: 'easeOut' },
+} as const;
+
+// Above this many rows only the rows in the scroll viewport are rendered
+const VIRTUALIZE_THRESHOLD = 200;
+
+// Above this many rows, rows appear together instead of one after another
+const STAGGER_THRESHOLD = 40;
+
+// ============================================
+// View-only sorting and filtering
+// ============================================
+
+function matches(value: unknown, query: string): boolean {
+  return searchText(value).toLowerCase().includes(query.trim().toLowerCase());
+}
+
+// NULLs last, numbers numerically, everything else as natural-order text
+const compareValues: SortingFn<RowState> = (rowA, rowB, columnId) => {
+  const a = rowA.getValue(columnId);
+  const b = rowB.getValue(columnId);
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return searchText(a).localeCompare(searchText(b), undefined, { numeric: true });
+};
+
+const containsText: FilterFn<RowState> = (row, columnId, query: string) =>
+  matches(row.getValue(columnId), query);
+
 export function DataTable({
   columns,
   rows,
   tableName,
   showExcludedRows = true,
   highlightIncluded = false,
+  highlightedRowIds,
+  markedRowIds,
+  onRowHover,
+  onRowClick,
+  animateChanges = false,
+  exportName,
+  columnTypes,
 }: DataTableProps) {
+  const cellMotion = animateChanges ? columnTransition : {};
   const columnHelper = createColumnHelper<RowState>();
 
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const [globalFilter, setGlobalFilter] = useState('');
+  const [showColumnFilters, setShowColumnFilters] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+
+  const columnKinds = useMemo(
+    () =>
+      Object.fromEntries(
+        columns.map((col) => [col, columnKind(columnTypes?.[col], rows.map((row) => row.data[col]))])
+      ) as Record<string, CellKind>,
+    [columns, columnTypes, rows]
+  );
+
   const tableColumns = useMemo<ColumnDef<RowState, unknown>[]>(() => {
     return columns.map((col) =>
       columnHelper.accessor((row) => row.data[col], {
         id: col,
+        sortingFn: compareValues,
+        filterFn: containsText,
         header: () => (
           <span className="font-semibold text-zinc-200">{col}</span>
         ),
         cell: (info) => {
           const value = info.getValue();
           const row = info.row.original;
+          const search = info.table.getState().globalFilter as string;
           return (
             <span
               className={cn(
                 'transition-colors duration-300',
+                columnKinds[col] === 'number' && 'block',
                 !row.included && highlightIncluded && 'text-zinc-600'
               )}
             >
-              {value === null ? (
-                <span className="text-zinc-500 italic">NULL</span>
-              ) : (
-                String(value)
-              )}
+              <CellValue value={value} kind={columnKinds[col]} search={search} />
             </span>
           );
         },
       })
     );
-  }, [columns, columnHelper, highlightIncluded]);
+  }, [columns, columnHelper, columnKinds, highlightIncluded]);
 
   const filteredRows = useMemo(() => {
     if (showExcludedRows) return rows;
     return rows.filter((row) => row.included);
   }, [rows, showExcludedRows]);
 
+  // Sorts and filters on columns the current step no longer has are kept but not applied.
+  // Memoized: the table re-sorts and re-filters whenever these arrays change identity
+  const activeSorting = useMemo(() => sorting.filter((sort) => columns.includes(sort.id)), [sorting, columns]);
+  const activeFilters = useMemo(
+    () => columnFilters.filter((filter) => columns.includes(filter.id)),
+    [columnFilters, columns]
+  );
+
   const table = useReactTable({
     data: filteredRows,
     columns: tableColumns,
+    state: {
+      sorting: activeSorting,
+      columnFilters: activeFilters,
+      globalFilter,
+    },
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onGlobalFilterChange: setGlobalFilter,
+    globalFilterFn: containsText,
+    // Search every column, not only those whose first value is text or a number
+    getColumnCanGlobalFilter: () => true,
+    sortDescFirst: false,
+    getRowId: (row, index) => row.rowId ?? String(index),
     getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
   });
 
+  const isFiltered = activeFilters.length > 0 || globalFilter.trim() !== '';
+  const isViewChanged = isFiltered || activeSorting.length > 0;
+  const tableRows = table.getRowModel().rows;
+  const visibleRowCount = tableRows.length;
+
+  // Large tables scroll inside the card; rows entering the window appear without
+  // animation so scrolling stays smooth, while the rendered rows still animate changes
+  const isVirtualized = visibleRowCount > VIRTUALIZE_THRESHOLD;
+  const staggerDelay = visibleRowCount > STAGGER_THRESHOLD ? 0 : 0.03;
+  const rowKeys = useMemo(() => tableRows.map((row) => row.id), [tableRows]);
+  // Exports follow the view: the current sort order and only the rows that pass the filters
+  const exportRows = useMemo(() => tableRows.map((row) => row.original), [tableRows]);
+  const virtualRows = useVirtualRows<HTMLDivElement>({ rowKeys, enabled: isVirtualized });
+
+  // Steps are profiled on the rows they keep, so consecutive steps show how the data changed
+  const profileRows = useMemo(
+    () => (highlightIncluded ? filteredRows.filter((row) => row.included) : filteredRows),
+    [filteredRows, highlightIncluded]
+  );
+  const profiles = useMemo(
+    () => (showProfile ? profileColumns(columns, profileRows.map((row) => row.data), columnKinds) : []),
+    [showProfile, columns, profileRows, columnKinds]
+  );
+
+  const resetView = () => {
+    setSorting([]);
+    setColumnFilters([]);
+    setGlobalFilter('');
+  };
+
+  const renderRow = (row: (typeof tableRows)[number], index: number) => {
+    const { rowId } = row.original;
+    const isTraced = !!rowId && !!highlightedRowIds?.has(rowId);
+    const isMarked = !!rowId && !!markedRowIds?.has(rowId);
+
+    return (
+      <motion.tr
+        key={row.id}
+        ref={isVirtualized ? virtualRows.measureRow : undefined}
+        {...(isVirtualized ? virtualRows.rowProps(row.id) : {})}
+        initial={isVirtualized ? false : { opacity: 0, y: -10 }}
+        animate={{ 
+          opacity: row.original.included || !highlightIncluded || isTraced || isMarked ? 1 : 0.4,
+          y: 0,
+          backgroundColor: isTraced
+            ? 'rgba(245, 158, 11, 0.18)'
+            : isMarked
+            ? 'rgba(239, 68, 68, 0.16)'
+            : row.original.included && highlightIncluded 
+            ? 'rgba(16, 185, 129, 0.1)' 
+            : 'transparent'
+        }}
+        exit={{ opacity: 0, y: 10 }}
+        transition={{ 
+          duration: 0.3, 
+          delay: (index - virtualRows.start) * staggerDelay,
+          ease: 'easeOut',
+          layout: { duration: 0.45, ease: 'easeInOut' },
+        }}
+        layout={animateChanges && !isVirtualized ? 'position' : false}
+        onMouseEnter={onRowHover && (() => onRowHover(rowId ?? null))}
+        onMouseLeave={onRowHover && (() => onRowHover(null))}
+        onClick={onRowClick && rowId ? () => onRowClick(rowId) : undefined}
+        className={cn(
+          'border-b border-white/5 hover:bg-white/5 transition-colors',
+          !row.original.included && highlightIncluded && 'line-through decoration-zinc-600',
+          isTraced && 'shadow-[inset_3px_0_0_#F59E0B]',
+          isMarked && !isTraced && 'shadow-[inset_3px_0_0_#EF4444]',
+          onRowClick && 'cursor-pointer'
+        )}
+      >
+        <AnimatePresence initial={false}>
+          {row.getVisibleCells().map((cell) => (
+            <motion.td
+              key={cell.column.id}
+              {...cellMotion}
+              className="px-5 py-4 text-sm text-zinc-300 overflow-hidden"
+            >
+              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </motion.td>
+          ))}
+        </AnimatePresence>
+      </motion.tr>
+    );
+  };
+
   if (columns.length === 0) {
     return (
       <div className="flex items-center justify-center h-32 text-zinc-500">
@@ -89,68 +283,143 @@ export function DataTable({
           </h3>
         </div>
       )}
-      <div className="overflow-x-auto">
+      {rows.length > 0 && (
+        <div className="px-5 py-2.5 border-b border-white/10 flex items-center gap-3 flex-wrap text-xs">
+          <div className="relative">
+            <SearchIcon className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-500" />
+            <input
+              type="search"
+              value={globalFilter}
+              onChange={(event) => setGlobalFilter(event.target.value)}
+              placeholder="Tìm trong bảng..."
+              className="w-52 pl-8 pr-2 py-1.5 rounded-lg bg-zinc-800/60 border border-white/10 text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:border-violet-500/50"
+            />
+          </div>
+          <button
+            onClick={() => setShowColumnFilters((show) => !show)}
+            className={cn(
+              'flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-colors',
+              showColumnFilters || activeFilters.length > 0
+                ? 'bg-violet-500/20 text-violet-200'
+                : 'text-zinc-400 hover:text-zinc-200'
+            )}
+          >
+            <FilterIcon className="w-3.5 h-3.5" />
+            Lọc theo cột{activeFilters.length > 0 && ` (${activeFilters.length})`}
+          </button>
+          <button
+            onClick={() => setShowProfile((show) => !show)}
+            className={cn(
+              'flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-colors',
+              showProfile ? 'bg-violet-500/20 text-violet-200' : 'text-zinc-400 hover:text-zinc-200'
+            )}
+          >
+            <BarChart3Icon className="w-3.5 h-3.5" />
+            Thống kê cột
+          </button>
+          {isViewChanged && (
+            <>
+              <span className="text-amber-300/80">
+                Chỉ thay đổi cách hiển thị — bước SQL không bị ảnh hưởng
+              </span>
+              <button
+                onClick={resetView}
+                className="flex items-center gap-1.5 text-zinc-400 hover:text-zinc-200 transition-colors"
+              >
+                <RotateCcwIcon className="w-3.5 h-3.5" />
+                Bỏ sắp xếp và lọc
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      <AnimatePresence initial={false}>
+        {showProfile && (
+          <ColumnProfilePanel
+            profiles={profiles}
+            basis={highlightIncluded ? `${profileRows.length} dòng đúng yêu cầu` : `${profileRows.length} dòng`}
+          />
+        )}
+      </AnimatePresence>
+      <div
+        ref={virtualRows.scrollRef}
+        className={cn('overflow-x-auto', isVirtualized && 'overflow-y-auto max-h-[36rem]')}
+      >
         <table className="w-full">
-          <thead>
+          <thead className={cn(isVirtualized && 'sticky top-0 z-10 bg-zinc-900')}>
             {table.getHeaderGroups().map((headerGroup) => (
               <tr key={headerGroup.id} className="border-b border-white/10 bg-zinc-800/30">
-                {headerGroup.headers.map((header) => (
-                  <th
-                    key={header.id}
-                    className="px-5 py-4 text-left text-sm font-medium text-zinc-400"
-                  >
-                    {header.isPlaceholder
-                      ? null
-                      : flexRender(header.column.columnDef.header, header.getContext())}
-                  </th>
-                ))}
+                <AnimatePresence initial={false}>
+                  {headerGroup.headers.map((header) => {
+                    const sortDirection = header.column.getIsSorted();
+                    const SortIcon = sortDirection === 'asc' ? ArrowUpIcon : sortDirection === 'desc' ? ArrowDownIcon : ArrowUpDownIcon;
+                    const isNumeric = columnKinds[header.column.id] === 'number';
+
+                    return (
+                      <motion.th
+                        key={header.id}
+                        {...cellMotion}
+                        className={cn(
+                          'px-5 py-4 text-sm font-medium text-zinc-400 whitespace-nowrap overflow-hidden',
+                          isNumeric ? 'text-right' : 'text-left'
+                        )}
+                      >
+                        {!header.isPlaceholder && (
+                          <button
+                            onClick={header.column.getToggleSortingHandler()}
+                            className={cn('group flex items-center gap-1.5', isNumeric && 'ml-auto flex-row-reverse')}
+                            title="Sắp xếp (chỉ trong bảng này)"
+                          >
+                            {flexRender(header.column.columnDef.header, header.getContext())}
+                            <SortIcon
+                              className={cn(
+                                'w-3.5 h-3.5 transition-opacity',
+                                sortDirection ? 'text-violet-300' : 'opacity-0 group-hover:opacity-60'
+                              )}
+                            />
+                          </button>
+                        )}
+                        {showColumnFilters && (
+                          <input
+                            value={(header.column.getFilterValue() as string | undefined) ?? ''}
+                            onChange={(event) => header.column.setFilterValue(event.target.value || undefined)}
+                            placeholder="Lọc..."
+                            className="mt-2 w-full min-w-20 px-2 py-1 rounded-md bg-zinc-900/80 border border-white/10 text-xs font-normal text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-violet-500/50"
+                          />
+                        )}
+                      </motion.th>
+                    );
+                  })}
+                </AnimatePresence>
               </tr>
             ))}
           </thead>
           <tbody>
-            <AnimatePresence mode="popLayout">
-              {table.getRowModel().rows.map((row, index) => (
-                <motion.tr
-                  key={row.id}
-                  initial={{ opacity: 0, y: -10 }}
-                  animate={{ 
-                    opacity: row.original.included || !highlightIncluded ? 1 : 0.4,
-                    y: 0,
-                    backgroundColor: row.original.included && highlightIncluded 
-                      ? 'rgba(16, 185, 129, 0.1)' 
-                      : 'transparent'
-                  }}
-                  exit={{ opacity: 0, y: 10 }}
-                  transition={{ 
-                    duration: 0.3, 
-                    delay: index * 0.03,
-                    ease: 'easeOut'
-                  }}
-                  className={cn(
-                    'border-b border-white/5 hover:bg-white/5 transition-colors',
-                    !row.original.included && highlightIncluded && 'line-through decoration-zinc-600'
-                  )}
-                >
-                  {row.getVisibleCells().map((cell) => (
-                    <td key={cell.id} className="px-5 py-4 text-sm text-zinc-300">
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </td>
-                  ))}
-                </motion.tr>
-              ))}
-            </AnimatePresence>
+            {virtualRows.paddingTop > 0 && <tr aria-hidden style={{ height: virtualRows.paddingTop }} />}
+            {isVirtualized ? (
+              tableRows.slice(virtualRows.start, virtualRows.end).map((row, offset) => renderRow(row, virtualRows.start + offset))
+            ) : (
+              <AnimatePresence mode="popLayout">
+                {tableRows.map(renderRow)}
+              </AnimatePresence>
+            )}
+            {virtualRows.paddingBottom > 0 && <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />}
           </tbody>
         </table>
       </div>
-      {rows.length > 0 && (
-        <div className="px-5 py-3 bg-zinc-800/30 border-t border-white/10 text-xs text-zinc-500">
+      {(rows.length > 0 || exportName) && (
+        <div className="px-5 py-3 bg-zinc-800/30 border-t border-white/10 text-xs text-zinc-500 flex items-center justify-between gap-4">
           {highlightIncluded ? (
             <span>
               Hiển thị {rows.filter((r) => r.included).length} trên {rows.length} dòng
+              {isFiltered && ` · ${visibleRowCount} dòng khớp bộ lọc`}
             </span>
           ) : (
-            <span>{filteredRows.length} dòng</span>
+            <span>
+              {isFiltered ? `${visibleRowCount} / ${filteredRows.length} dòng khớp bộ lọc` : `${filteredRows.length} dòng`}
+            </span>
           )}
+          {exportName && <TableExportMenu name={exportName} columns={columns} rows={exportRows} filtered={isFiltered} />}
         </div>
       )}
     </div>
@@ -162,9 +431,10 @@ interface SimpleTableProps {
   columns: string[];
   rows: Record<string, unknown>[];
   tableName?: string;
+  columnTypes?: Record<string, string>;
 }
 
-export function SimpleTable({ columns, rows, tableName }: SimpleTableProps) {
+export function SimpleTable({ columns, rows, tableName, columnTypes }: SimpleTableProps) {
   const rowStates: RowState[] = rows.map((row) => ({
     data: row,
     included: true,
@@ -177,6 +447,8 @@ export function SimpleTable({ columns, rows, tableName }: SimpleTableProps) {
       tableName={tableName}
       showExcludedRows={true}
       highlightIncluded={false}
+      exportName={tableName ?? 'table'}
+      columnTypes={columnTypes}
     />
   );
 }
@@ -0,0 +1,171 @@
+/**
+ * Excluded Rows Inspector - Every row a step filtered out, grouped by the reason it was excluded
+ */
+
+import { useMemo } from 'react';
+import { motion } from 'motion/react';
+import { XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import { columnKind } from '@/lib/cellFormat';
+import type { ExcludedGroup } from '@/lib/excludedRows';
+import type { RowState } from '@/api/types';
+import { CellValue } from './CellValue';
+
+interface ExcludedRowsInspectorProps {
+  groups: ExcludedGroup[];
+  columns: string[];
+  columnTypes?: Record<string, string>;
+  /** Reason whose rows are highlighted in the step table; null shows every group */
+  activeReason: string | null;
+  onReasonChange: (reason: string | null) => void;
+  onRowClick?: (rowId: string) => void;
+}
+
+/** A reason heading or one of its rows, in display order */
+type InspectorLine =
+  | { kind: 'reason'; key: string; group: ExcludedGroup }
+  | { kind: 'row'; key: string; row: RowState };
+
+// Above this many lines only those in the scroll viewport are rendered
+const VIRTUALIZE_THRESHOLD = 200;
+
+// py-1.5 cells with text-xs and the 1px row border
+const ESTIMATED_LINE_HEIGHT = 29;
+
+// Column kinds are sniffed from the first rows only
+const KIND_SAMPLE_ROWS = 100;
+
+export function ExcludedRowsInspector({
+  groups,
+  columns,
+  columnTypes,
+  activeReason,
+  onReasonChange,
+  onRowClick,
+}: ExcludedRowsInspectorProps) {
+  const total = groups.reduce((sum, group) => sum + group.rows.length, 0);
+
+  const kinds = useMemo(() => {
+    const sample: RowState[] = [];
+    for (const group of groups) {
+      sample.push(...group.rows.slice(0, KIND_SAMPLE_ROWS - sample.length));
+      if (sample.length >= KIND_SAMPLE_ROWS) break;
+    }
+    return Object.fromEntries(
+      columns.map((column) => [column, columnKind(columnTypes?.[column], sample.map((row) => row.data[column]))])
+    );
+  }, [columns, columnTypes, groups]);
+
+  const lines = useMemo(() => {
+    const shownGroups = activeReason ? groups.filter((group) => group.reason === activeReason) : groups;
+    return shownGroups.flatMap((group): InspectorLine[] => [
+      ...(groups.length > 1 ? [{ kind: 'reason' as const, key: `reason:${group.reason}`, group }] : []),
+      ...group.rows.map((row, index) => ({ kind: 'row' as const, key: `${group.reason}:${row.rowId ?? index}`, row })),
+    ]);
+  }, [groups, activeReason]);
+
+  const isVirtualized = lines.length > VIRTUALIZE_THRESHOLD;
+  const lineKeys = useMemo(() => lines.map((line) => line.key), [lines]);
+  const { scrollRef, measureRow, rowProps, start, end, paddingTop, paddingBottom } = useVirtualRows<HTMLDivElement>({
+    rowKeys: lineKeys,
+    enabled: isVirtualized,
+    estimatedRowHeight: ESTIMATED_LINE_HEIGHT,
+  });
+
+  const renderLine = (line: InspectorLine) => {
+    const measureRef = isVirtualized ? measureRow : undefined;
+    const measureProps = isVirtualized ? rowProps(line.key) : {};
+
+    if (line.kind === 'reason') {
+      return (
+        <tr key={line.key} ref={measureRef} {...measureProps}>
+          <td colSpan={columns.length} className="px-3 pt-3 pb-1 text-red-400/70">
+            — {line.group.reason} ({line.group.rows.length})
+          </td>
+        </tr>
+      );
+    }
+
+    const { rowId, data } = line.row;
+    return (
+      <tr
+        key={line.key}
+        ref={measureRef}
+        {...measureProps}
+        onClick={onRowClick && rowId ? () => onRowClick(rowId) : undefined}
+        className={cn('border-t border-red-500/5 text-red-100/80 hover:bg-red-500/10', onRowClick && 'cursor-pointer')}
+      >
+        {columns.map((column) => (
+          <td key={column} className="px-3 py-1.5">
+            <CellValue value={data[column]} kind={kinds[column]} />
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      transition={{ delay: 0.2 }}
+      className="mt-5 p-4 bg-red-900/20 rounded-xl border border-red-500/20 space-y-4"
+    >
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h4 className="text-sm font-medium text-red-300">
+          Số Dòng Không Đúng Yêu Cầu ({total})
+        </h4>
+        {activeReason && (
+          <button
+            onClick={() => onReasonChange(null)}
+            className="flex items-center gap-1 text-xs text-red-300/70 hover:text-red-200"
+          >
+            <XIcon className="w-3.5 h-3.5" />
+            Bỏ đánh dấu
+          </button>
+        )}
+      </div>
+
+      {/* Reasons */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {groups.map((group) => (
+          <button
+            key={group.reason}
+            onClick={() => onReasonChange(activeReason === group.reason ? null : group.reason)}
+            title="Đánh dấu các dòng này trong bảng"
+            className={cn(
+              'flex items-center gap-2 px-3 py-1.5 rounded-lg border text-left transition-colors',
+              activeReason === group.reason
+                ? 'bg-red-500/25 border-red-400/50 text-red-100'
+                : 'bg-red-950/30 border-red-500/20 text-red-300/80 hover:text-red-200'
+            )}
+          >
+            <span>{group.reason}</span>
+            <span className="font-mono font-bold">{group.rows.length}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Rows */}
+      <div ref={scrollRef} className="max-h-80 overflow-auto rounded-lg border border-red-500/10">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-zinc-900">
+            <tr>
+              {columns.map((column) => (
+                <th key={column} className="px-3 py-2 text-left font-medium text-red-200/80 whitespace-nowrap">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+            {lines.slice(start, end).map(renderLine)}
+            {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
@@ -6,7 +6,17 @@ import { motion } from 'motion/react';
 import { cn } from '@/lib/utils';
 import type { ExecutionStep, DataFlowStep } from '@/api/types';
 import { STEP_COLORS } from '@/api/types';
-import { CheckIcon, ChevronLeftIcon, ChevronRightIcon, RefreshCcwIcon, XIcon } from 'lucide-react';
+import {
+  CheckIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PauseIcon,
+  PlayIcon,
+  RefreshCcwIcon,
+  RepeatIcon,
+  XIcon,
+} from 'lucide-react';
+import { PLAYBACK_SPEEDS } from '@/hooks/usePlayback';
 
 interface ExecutionStepperProps {
   steps: ExecutionStep[];
@@ -147,12 +157,22 @@ export function ExecutionStepper({
 // Step Navigation Controls
 // ============================================
 
+export interface PlaybackControls {
+  isPlaying: boolean;
+  speed: number;
+  loop: boolean;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
 interface StepNavigationProps {
   currentStepIndex: number;
   totalSteps: number;
   onPrev: () => void;
   onNext: () => void;
   onReset: () => void;
+  playback?: PlaybackControls;
 }
 
 export function StepNavigation({
@@ -161,6 +181,7 @@ export function StepNavigation({
   onPrev,
   onNext,
   onReset,
+  playback,
 }: StepNavigationProps) {
   const isFirst = currentStepIndex === 0;
   const isLast = currentStepIndex >= totalSteps - 1;
@@ -174,6 +195,32 @@ export function StepNavigation({
         >
           <RefreshCcwIcon className="w-4 h-4" />
         </button>
+        {playback && (
+          <motion.button
+            onClick={playback.onTogglePlay}
+            disabled={totalSteps < 2}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            aria-label={playback.isPlaying ? 'Tạm dừng' : 'Tự động chạy'}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-all',
+              playback.isPlaying
+                ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30'
+                : 'bg-zinc-800 text-zinc-200 hover:bg-zinc-700',
+              totalSteps < 2 && 'opacity-50 cursor-not-allowed'
+            )}
+          >
+            {playback.isPlaying ? (
+              <>
+                <PauseIcon className="w-4 h-4" /> Dừng
+              </>
+            ) : (
+              <>
+                <PlayIcon className="w-4 h-4" /> Tự chạy
+              </>
+            )}
+          </motion.button>
+        )}
       </div>
 
       <div className="flex items-center gap-5">
@@ -212,7 +259,41 @@ export function StepNavigation({
         </motion.button>
       </div>
 
-      <div className="w-24" /> {/* Spacer for balance */}
+      {playback ? (
+        <div className="flex items-center gap-2">
+          <div className="flex items-center bg-zinc-800 rounded-xl p-1">
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                onClick={() => playback.onSpeedChange(speed)}
+                className={cn(
+                  'px-2.5 py-1.5 rounded-lg text-xs font-mono transition-colors',
+                  playback.speed === speed
+                    ? 'bg-violet-600 text-white'
+                    : 'text-zinc-400 hover:text-zinc-200'
+                )}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => playback.onLoopChange(!playback.loop)}
+            aria-pressed={playback.loop}
+            title="Lặp lại"
+            className={cn(
+              'p-2.5 rounded-xl transition-colors',
+              playback.loop
+                ? 'bg-violet-600/30 text-violet-300'
+                : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'
+            )}
+          >
+            <RepeatIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="w-24" /> /* Spacer for balance */
+      )}
     </div>
   );
 }
@@ -0,0 +1,154 @@
+/**
+ * Group Step View - GROUP BY buckets with their members and aggregate working
+ */
+
+import { motion } from 'motion/react';
+import { CheckIcon, SigmaIcon, XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { GroupAnalysis, RowGroup } from '@/lib/groupAnalysis';
+import { STEP_COLORS } from '@/api/types';
+
+interface GroupStepViewProps {
+  analysis: GroupAnalysis;
+  /** On the HAVING step, groups are marked kept or discarded */
+  showHaving?: boolean;
+}
+
+export function GroupStepView({ analysis, showHaving = false }: GroupStepViewProps) {
+  const { groupColumns, memberColumns, groups } = analysis;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-sm text-zinc-400">
+        <span>
+          {groups.length} nhóm theo{' '}
+          {groupColumns.map((column) => (
+            <code key={column} className="mx-0.5 px-1.5 py-0.5 rounded bg-zinc-800 text-amber-300 font-mono text-xs">
+              {column}
+            </code>
+          ))}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {groups.map((group, index) => (
+          <GroupCard
+            key={JSON.stringify(group.key)}
+            group={group}
+            index={index}
+            groupColumns={groupColumns}
+            memberColumns={memberColumns}
+            showHaving={showHaving}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Group Card
+// ============================================
+
+interface GroupCardProps {
+  group: RowGroup;
+  index: number;
+  groupColumns: string[];
+  memberColumns: string[];
+  showHaving: boolean;
+}
+
+function GroupCard({ group, index, groupColumns, memberColumns, showHaving }: GroupCardProps) {
+  const groupColor = STEP_COLORS['GROUP BY'];
+  const discarded = showHaving && group.kept === false;
+  const kept = showHaving && group.kept === true;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: discarded ? 0.55 : 1, scale: 1 }}
+      transition={{ delay: index * 0.08 }}
+      className={cn(
+        'rounded-xl border overflow-hidden bg-zinc-900/60',
+        kept && 'border-emerald-500/40',
+        discarded && 'border-red-500/40',
+        !kept && !discarded && 'border-white/10'
+      )}
+    >
+      {/* Group key */}
+      <div
+        className="flex items-center justify-between px-4 py-2.5 border-b border-white/10"
+        style={{ backgroundColor: `${groupColor}15` }}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-sm font-mono">
+          {groupColumns.map((column) => (
+            <span key={column} className="text-zinc-300">
+              <span className="text-zinc-500">{column} =</span>{' '}
+              <span className={cn('font-semibold', discarded ? 'text-zinc-500 line-through' : 'text-amber-300')}>
+                {group.key[column] === null ? 'NULL' : String(group.key[column])}
+              </span>
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-zinc-400">{group.members.length} dòng</span>
+          {kept && <CheckIcon className="w-4 h-4 text-emerald-400" />}
+          {discarded && <XIcon className="w-4 h-4 text-red-400" />}
+        </div>
+      </div>
+
+      {/* Members */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-zinc-500">
+              {memberColumns.map((column) => (
+                <th
+                  key={column}
+                  className={cn('px-3 py-1.5 text-left font-medium', groupColumns.includes(column) && 'text-amber-400/80')}
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {group.members.map((member, memberIndex) => (
+              <tr key={memberIndex} className="border-t border-white/5 text-zinc-300">
+                {memberColumns.map((column) => (
+                  <td key={column} className="px-3 py-1.5">
+                    {member[column] === null ? (
+                      <span className="italic text-zinc-500">NULL</span>
+                    ) : (
+                      String(member[column])
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Aggregates */}
+      {group.aggregates.length > 0 && (
+        <div className="px-4 py-3 border-t border-white/10 bg-zinc-800/30 space-y-1.5">
+          {group.aggregates.map((aggregate) => (
+            <div key={aggregate.spec.label} className="flex items-start gap-2 text-xs font-mono">
+              <SigmaIcon className="w-3.5 h-3.5 mt-0.5 text-amber-400 shrink-0" />
+              <span className="text-zinc-200 shrink-0">{aggregate.spec.label}</span>
+              <span className="text-zinc-500">=</span>
+              <span className="text-zinc-400 break-all">{aggregate.formula}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {discarded && group.excludedReason && (
+        <div className="px-4 py-2 border-t border-red-500/20 bg-red-900/20 text-xs text-red-300/80">
+          {group.excludedReason}
+        </div>
+      )}
+    </motion.div>
+  );
+}
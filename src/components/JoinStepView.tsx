@@ -0,0 +1,247 @@
+/**
+ * Join Step View - Left and right inputs of a JOIN with the matched row pairs
+ */
+
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { RotateCcwIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { keepsUnmatched, type JoinAnalysis } from '@/lib/joinAnalysis';
+import type { RowData } from '@/api/types';
+import { STEP_COLORS } from '@/api/types';
+
+// Fixed row geometry lets the connectors be drawn without measuring the DOM
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 36;
+const CONNECTOR_WIDTH = 96;
+const REVEAL_INTERVAL_MS = 500;
+
+const JOIN_COLOR = STEP_COLORS.JOIN;
+
+interface JoinStepViewProps {
+  analysis: JoinAnalysis;
+}
+
+export function JoinStepView({ analysis }: JoinStepViewProps) {
+  const { clause, leftColumns, leftRows, rightColumns, rightRows, output } = analysis;
+  const [revealed, setRevealed] = useState(0);
+
+  // Build the output up one pair at a time
+  useEffect(() => {
+    if (revealed >= output.length) return;
+    const timer = window.setTimeout(() => setRevealed((count) => count + 1), REVEAL_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [revealed, output.length]);
+
+  const visibleOutput = output.slice(0, revealed);
+  const current = revealed > 0 ? output[revealed - 1] : null;
+  const unmatchedLeft = new Set(analysis.unmatchedLeft);
+  const unmatchedRight = new Set(analysis.unmatchedRight);
+
+  const rowY = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+  const height = HEADER_HEIGHT + Math.max(leftRows.length, rightRows.length, 1) * ROW_HEIGHT;
+
+  const sideState = (side: 'left' | 'right', index: number) => {
+    const unmatched = side === 'left' ? unmatchedLeft.has(index) : unmatchedRight.has(index);
+    if (!unmatched) return 'matched';
+    return keepsUnmatched(clause.joinType, side) ? 'kept' : 'dropped';
+  };
+
+  const isCurrent = (side: 'left' | 'right', index: number) =>
+    current !== null && current[side] === index;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-sm">
+          <span
+            className="px-2.5 py-1 rounded-lg font-mono font-semibold text-white"
+            style={{ backgroundColor: JOIN_COLOR }}
+          >
+            {clause.joinType} JOIN
+          </span>
+          {clause.condition && (
+            <span className="font-mono text-zinc-400">ON {clause.condition}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-4 text-xs text-zinc-500">
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-sm bg-amber-500/40" /> Giữ lại với NULL
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-sm bg-red-500/40" /> Bị loại
+          </span>
+        </div>
+      </div>
+
+      {/* Inputs with connectors */}
+      <div
+        className="grid items-start overflow-x-auto"
+        style={{ gridTemplateColumns: `minmax(0, 1fr) ${CONNECTOR_WIDTH}px minmax(0, 1fr)` }}
+      >
+        <SourceTable
+          title="Bảng trái"
+          columns={leftColumns}
+          rows={leftRows}
+          stateOf={(index) => sideState('left', index)}
+          isCurrent={(index) => isCurrent('left', index)}
+        />
+
+        <svg width={CONNECTOR_WIDTH} height={height} className="overflow-visible">
+          {visibleOutput.map((pair, index) => {
+            if (pair.left === null || pair.right === null) return null;
+            const y1 = rowY(pair.left);
+            const y2 = rowY(pair.right);
+            const active = pair === current;
+            return (
+              <motion.path
+                key={index}
+                d={`M 0 ${y1} C ${CONNECTOR_WIDTH / 2} ${y1}, ${CONNECTOR_WIDTH / 2} ${y2}, ${CONNECTOR_WIDTH} ${y2}`}
+                fill="none"
+                stroke={JOIN_COLOR}
+                strokeWidth={active ? 2.5 : 1.5}
+                strokeOpacity={active ? 1 : 0.5}
+                initial={{ pathLength: 0 }}
+                animate={{ pathLength: 1 }}
+                transition={{ duration: 0.35, ease: 'easeOut' }}
+              />
+            );
+          })}
+        </svg>
+
+        <SourceTable
+          title={clause.alias === clause.table ? clause.table : `${clause.table} (${clause.alias})`}
+          columns={rightColumns}
+          rows={rightRows}
+          stateOf={(index) => sideState('right', index)}
+          isCurrent={(index) => isCurrent('right', index)}
+        />
+      </div>
+
+      {/* Output built pair by pair */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-zinc-300">
+            Kết quả kết nối ({visibleOutput.length}/{output.length} dòng)
+          </h4>
+          <button
+            onClick={() => setRevealed(0)}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50 transition-colors"
+          >
+            <RotateCcwIcon className="w-3.5 h-3.5" /> Xem lại
+          </button>
+        </div>
+        <div className="overflow-x-auto rounded-xl border border-white/10">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="bg-zinc-800/30 text-zinc-400">
+                {leftColumns.map((column) => (
+                  <th key={`l-${column}`} className="px-3 py-2 text-left font-medium">{column}</th>
+                ))}
+                {rightColumns.map((column) => (
+                  <th
+                    key={`r-${column}`}
+                    className="px-3 py-2 text-left font-medium"
+                    style={{ color: JOIN_COLOR }}
+                  >
+                    {clause.alias}.{column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleOutput.map((pair, index) => (
+                <motion.tr
+                  key={index}
+                  initial={{ opacity: 0, x: -12 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  className={cn(
+                    'border-t border-white/5 text-zinc-300',
+                    pair === current && 'bg-violet-500/10'
+                  )}
+                >
+                  {leftColumns.map((column) => (
+                    <OutputCell
+                      key={`l-${column}`}
+                      row={pair.left === null ? null : leftRows[pair.left]}
+                      column={column}
+                    />
+                  ))}
+                  {rightColumns.map((column) => (
+                    <OutputCell
+                      key={`r-${column}`}
+                      row={pair.right === null ? null : rightRows[pair.right]}
+                      column={column}
+                    />
+                  ))}
+                </motion.tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Source Table
+// ============================================
+
+type SourceRowState = 'matched' | 'kept' | 'dropped';
+
+interface SourceTableProps {
+  title: string;
+  columns: string[];
+  rows: RowData[];
+  stateOf: (index: number) => SourceRowState;
+  isCurrent: (index: number) => boolean;
+}
+
+function SourceTable({ title, columns, rows, stateOf, isCurrent }: SourceTableProps) {
+  return (
+    <div className="min-w-0 rounded-xl border border-white/10 overflow-hidden">
+      <div
+        className="flex items-center px-3 text-xs font-semibold text-zinc-300 bg-zinc-800/50 border-b border-white/10 truncate"
+        style={{ height: HEADER_HEIGHT }}
+      >
+        {title}
+      </div>
+      {rows.map((row, index) => {
+        const state = stateOf(index);
+        return (
+          <div
+            key={index}
+            className={cn(
+              'flex items-center gap-3 px-3 text-xs font-mono border-b border-white/5 last:border-b-0 transition-colors',
+              state === 'matched' && 'text-zinc-300',
+              state === 'kept' && 'bg-amber-500/15 text-amber-200',
+              state === 'dropped' && 'bg-red-500/15 text-red-300/70 line-through',
+              isCurrent(index) && 'ring-1 ring-inset ring-violet-400 bg-violet-500/15'
+            )}
+            style={{ height: ROW_HEIGHT }}
+          >
+            {columns.map((column) => (
+              <span key={column} className="truncate" title={`${column}: ${String(row[column])}`}>
+                {row[column] === null ? <span className="italic text-zinc-500">NULL</span> : String(row[column])}
+              </span>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function OutputCell({ row, column }: { row: RowData | null; column: string }) {
+  const value = row ? row[column] : null;
+  return (
+    <td className="px-3 py-2">
+      {value === null || value === undefined ? (
+        <span className="italic text-amber-400/70">NULL</span>
+      ) : (
+        String(value)
+      )}
+    </td>
+  );
+}
@@ -2,12 +2,15 @@
  * Main Layout Component with Navigation
  */
 
+import { useState } from 'react';
 import { motion } from 'motion/react';
-import { FileText, Database, Search, BarChart3 } from 'lucide-react';
+import { FileText, Database, Search, BarChart3, GitCompareArrows, Trash2Icon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAppStore, type AppView } from '@/store';
 import { useHealthCheck } from '@/hooks/useApi';
 import { FeedbackFAB } from '@/components/FeedbackFAB';
+import { Toaster } from '@/components/Toaster';
+import { clearLocalData } from '@/store/localData';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -22,6 +25,7 @@ export function Layout({ children }: LayoutProps) {
     { id: 'schema', label: 'Biểu đồ', icon: Database, disabled: tables.length === 0 },
     { id: 'query', label: 'Truy vấn', icon: Search, disabled: tables.length === 0 },
     { id: 'visualization', label: 'Hiểu rõ', icon: BarChart3, disabled: !visualization },
+    { id: 'compare', label: 'So sánh', icon: GitCompareArrows, disabled: tables.length === 0 },
   ];
 
   return (
@@ -149,7 +153,10 @@ export function Layout({ children }: LayoutProps) {
       <footer className="border-t border-white/5 py-6 mt-auto">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between text-xs text-zinc-500">
-            <p>SQL Visualization Tool</p>
+            <div className="flex items-center gap-4">
+              <p>SQL Visualization Tool</p>
+              <ClearLocalDataButton />
+            </div>
             <p>Bấm <kbd className="px-1.5 py-0.5 bg-zinc-800 rounded text-zinc-400 font-mono">Ctrl+Enter</kbd> để chạy SQL</p>
           </div>
         </div>
@@ -157,6 +164,38 @@ export function Layout({ children }: LayoutProps) {
 
       {/* Feedback FAB */}
       <FeedbackFAB />
+
+      {/* Toasts */}
+      <Toaster />
     </div>
   );
 }
+
+/** Two clicks: the first one asks for confirmation */
+function ClearLocalDataButton() {
+  const [confirming, setConfirming] = useState(false);
+
+  if (confirming) {
+    return (
+      <span className="flex items-center gap-2">
+        <span className="text-red-300">Xóa query, tab, lịch sử và thư viện đã lưu trên trình duyệt này?</span>
+        <button onClick={clearLocalData} className="px-2 py-0.5 rounded bg-red-500/20 text-red-300 hover:bg-red-500/30">
+          Xóa
+        </button>
+        <button onClick={() => setConfirming(false)} className="px-2 py-0.5 rounded text-zinc-400 hover:text-zinc-200">
+          Hủy
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => setConfirming(true)}
+      className="flex items-center gap-1.5 text-zinc-500 hover:text-red-300 transition-colors"
+    >
+      <Trash2Icon className="w-3.5 h-3.5" />
+      Xóa dữ liệu cục bộ
+    </button>
+  );
+}
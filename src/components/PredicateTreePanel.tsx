@@ -0,0 +1,163 @@
+/**
+ * Predicate Tree Panel - A WHERE/HAVING condition broken into sub-expressions,
+ * each evaluated for one row with SQL's three-valued logic
+ */
+
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PredicateTrace, TruthValue } from '@/api/types';
+
+interface PredicateTreePanelProps {
+  stepType: 'WHERE' | 'HAVING';
+  trace: PredicateTrace;
+  /** The trace was recomputed in the browser rather than sent by the server */
+  computedLocally: boolean;
+  onClose: () => void;
+}
+
+const TRUTH_STYLES: Record<TruthValue, string> = {
+  TRUE: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  FALSE: 'bg-red-500/20 text-red-300 border-red-500/30',
+  UNKNOWN: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+};
+
+function hasUnknown(trace: PredicateTrace): boolean {
+  return trace.truth === 'UNKNOWN' || trace.children.some(hasUnknown);
+}
+
+function formatTraceValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+/** Why a node came out UNKNOWN, in terms of its children */
+function unknownReason(trace: PredicateTrace): string | null {
+  if (trace.truth !== 'UNKNOWN') return null;
+  if (trace.operator === 'AND') return 'không vế nào FALSE và có vế UNKNOWN';
+  if (trace.operator === 'OR') return 'không vế nào TRUE và có vế UNKNOWN';
+  if (trace.operator === 'NOT') return 'NOT UNKNOWN vẫn là UNKNOWN';
+  if (trace.children.some((child) => child.value === null)) return 'so sánh với NULL';
+  return null;
+}
+
+export function PredicateTreePanel({ stepType, trace, computedLocally, onClose }: PredicateTreePanelProps) {
+  // Hovering a node marks its text inside the whole condition
+  const [hovered, setHovered] = useState<{ start: number; end: number } | null>(null);
+  const result = trace.truth ?? 'UNKNOWN';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="mt-5 p-4 bg-zinc-800/40 rounded-xl border border-white/10 space-y-4 overflow-hidden"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="text-sm font-medium text-zinc-200 flex items-center gap-2">
+          Điều kiện {stepType} cho dòng đã chọn
+          <TruthBadge truth={result} />
+          <span className="text-xs font-normal text-zinc-500">
+            {result === 'TRUE' ? 'dòng được giữ lại' : 'dòng bị loại'}
+          </span>
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50 transition-colors"
+          aria-label="Đóng"
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Whole condition */}
+      <code className="block px-3 py-2 rounded-lg bg-zinc-900/70 font-mono text-sm text-zinc-300 whitespace-pre-wrap">
+        {hovered ? (
+          <>
+            {trace.text.slice(0, hovered.start)}
+            <mark className="bg-violet-500/30 text-violet-100 rounded-sm">{trace.text.slice(hovered.start, hovered.end)}</mark>
+            {trace.text.slice(hovered.end)}
+          </>
+        ) : (
+          trace.text
+        )}
+      </code>
+
+      {/* Tree */}
+      <ul className="text-sm" onMouseLeave={() => setHovered(null)}>
+        <TraceNode trace={trace} onHover={setHovered} />
+      </ul>
+
+      {/* Three-valued logic */}
+      {hasUnknown(trace) && (
+        <div className="p-3 rounded-lg bg-amber-900/10 border border-amber-500/20 text-xs text-amber-200/80 space-y-2">
+          <p>
+            So sánh với <span className="font-mono">NULL</span> không cho TRUE hay FALSE mà cho{' '}
+            <span className="font-semibold">UNKNOWN</span>. {stepType} chỉ giữ những dòng có điều kiện TRUE, nên
+            cả FALSE lẫn UNKNOWN đều bị loại. Muốn kiểm tra NULL, hãy dùng <span className="font-mono">IS NULL</span>.
+          </p>
+          <p className="font-mono text-amber-200/60">
+            TRUE AND UNKNOWN = UNKNOWN · FALSE AND UNKNOWN = FALSE · TRUE OR UNKNOWN = TRUE · FALSE OR UNKNOWN = UNKNOWN · NOT UNKNOWN = UNKNOWN
+          </p>
+        </div>
+      )}
+
+      {computedLocally && (
+        <p className="text-xs text-zinc-500">Được tính lại trên trình duyệt từ giá trị của dòng.</p>
+      )}
+    </motion.div>
+  );
+}
+
+function TruthBadge({ truth }: { truth: TruthValue }) {
+  return (
+    <span className={cn('px-1.5 py-0.5 rounded border text-xs font-mono font-semibold', TRUTH_STYLES[truth])}>
+      {truth}
+    </span>
+  );
+}
+
+interface TraceNodeProps {
+  trace: PredicateTrace;
+  onHover: (span: { start: number; end: number }) => void;
+}
+
+function TraceNode({ trace, onHover }: TraceNodeProps) {
+  const value = formatTraceValue(trace.value);
+  const reason = unknownReason(trace);
+
+  return (
+    <li>
+      <div
+        onMouseEnter={() => onHover({ start: trace.start, end: trace.end })}
+        className="flex items-center gap-2 py-1 px-2 -mx-2 rounded-lg hover:bg-white/5 flex-wrap"
+      >
+        {trace.truth ? (
+          <TruthBadge truth={trace.truth} />
+        ) : (
+          <span
+            className={cn(
+              'px-1.5 py-0.5 rounded bg-zinc-900 font-mono text-xs',
+              trace.value === null || trace.value === undefined ? 'text-zinc-500 italic' : 'text-sky-200'
+            )}
+          >
+            {value}
+          </span>
+        )}
+        {trace.operator && trace.children.length > 0 ? (
+          <span className="font-mono text-xs font-semibold text-violet-300">{trace.operator}</span>
+        ) : null}
+        <code className="font-mono text-xs text-zinc-400 truncate max-w-md">{trace.text}</code>
+        {reason && <span className="text-xs text-amber-300/70">— {reason}</span>}
+      </div>
+      {trace.children.length > 0 && (
+        <ul className="ml-3 pl-4 border-l border-white/10">
+          {trace.children.map((child, index) => (
+            <TraceNode key={index} trace={child} onHover={onHover} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Query Clause Highlighter - Shows the query with each step's clause colored
+ */
+
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { findClauseSpans } from '@/lib/clauseSpans';
+import type { ExecutionStep, DataFlowStep } from '@/api/types';
+import { STEP_COLORS } from '@/api/types';
+
+interface QueryClauseHighlighterProps {
+  query: string;
+  steps: ExecutionStep[];
+  dataFlow: DataFlowStep[];
+  currentStepIndex: number;
+  onStepClick: (index: number) => void;
+}
+
+export function QueryClauseHighlighter({
+  query,
+  steps,
+  dataFlow,
+  currentStepIndex,
+  onStepClick,
+}: QueryClauseHighlighterProps) {
+  const spans = useMemo(() => findClauseSpans(query, steps), [query, steps]);
+  const currentStepOrder = dataFlow[currentStepIndex]?.stepOrder;
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+
+  spans.forEach((span) => {
+    if (span.start > cursor) {
+      segments.push(query.slice(cursor, span.start));
+    }
+
+    const dataFlowIndex = dataFlow.findIndex((df) => df.stepOrder === span.stepOrder);
+    const isActive = span.stepOrder === currentStepOrder;
+    const stepColor = STEP_COLORS[span.type];
+
+    segments.push(
+      <button
+        key={`${span.stepOrder}-${span.start}`}
+        type="button"
+        onClick={() => onStepClick(dataFlowIndex)}
+        disabled={dataFlowIndex === -1}
+        title={span.type}
+        className={cn(
+          'inline rounded px-0.5 -mx-0.5 text-left font-mono whitespace-pre-wrap transition-all duration-300',
+          'focus:outline-none focus-visible:ring-2 focus-visible:ring-white/40',
+          isActive ? 'text-white' : 'text-zinc-300 hover:text-zinc-100',
+          dataFlowIndex === -1 && 'cursor-default'
+        )}
+        style={{
+          backgroundColor: isActive ? `${stepColor}55` : `${stepColor}18`,
+          boxShadow: isActive ? `0 0 0 1px ${stepColor}, 0 0 12px ${stepColor}40` : 'none',
+          borderBottom: `2px solid ${isActive ? stepColor : `${stepColor}80`}`,
+        }}
+      >
+        {query.slice(span.start, span.end)}
+      </button>
+    );
+    cursor = span.end;
+  });
+
+  if (cursor < query.length) {
+    segments.push(query.slice(cursor));
+  }
+
+  return (
+    <pre className="text-sm font-mono text-zinc-400 bg-zinc-800/50 rounded-xl p-4 overflow-x-auto whitespace-pre-wrap leading-relaxed">
+      {segments}
+    </pre>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * Query History Panel - Side drawer listing past runs, with restore and re-run
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2Icon, HistoryIcon, PlayIcon, SearchIcon, Trash2Icon, Undo2Icon, X, XCircleIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { searchHistory, useHistoryStore, type HistoryEntry, type HistoryKind } from '@/store/history';
+
+interface QueryHistoryPanelProps {
+  kind: HistoryKind;
+  onClose: () => void;
+  /** Puts the SQL back into the editor */
+  onRestore: (sql: string) => void;
+  /** Puts the SQL back into the editor and runs it */
+  onRerun: (sql: string) => void;
+  disabled?: boolean;
+}
+
+const TITLES: Record<HistoryKind, string> = {
+  setup: 'Lịch sử thiết lập',
+  query: 'Lịch sử query',
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString('vi-VN', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export function QueryHistoryPanel({ kind, onClose, onRestore, onRerun, disabled }: QueryHistoryPanelProps) {
+  const { entries, removeEntry, clearHistory } = useHistoryStore();
+  const [search, setSearch] = useState('');
+
+  const visible = useMemo(() => searchHistory(entries, kind, search), [entries, kind, search]);
+  const total = useMemo(() => entries.filter((entry) => entry.kind === kind).length, [entries, kind]);
+
+  // Handle escape key
+  useEffect(() => {
+    function handleEscape(event: KeyboardEvent) {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm"
+    >
+      <motion.aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="query-history-title"
+        onClick={(event) => event.stopPropagation()}
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+        className="absolute right-0 top-0 h-full w-full max-w-md bg-zinc-900 border-l border-zinc-800 shadow-2xl shadow-black/50 flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 pt-5 pb-4 border-b border-zinc-800">
+          <h2 id="query-history-title" className="text-lg font-semibold text-white flex items-center gap-2">
+            <HistoryIcon className="w-5 h-5 text-violet-400" />
+            {TITLES[kind]}
+            <span className="text-sm font-normal text-zinc-500">({total})</span>
+          </h2>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+            aria-label="Đóng"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Search */}
+        <div className="px-5 py-3 border-b border-zinc-800 flex items-center gap-2">
+          <div className="relative flex-1">
+            <SearchIcon className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Tìm theo SQL hoặc thông báo..."
+              className="w-full pl-9 pr-3 py-2 rounded-lg bg-zinc-800/60 border border-white/10 text-sm text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:border-violet-500/50"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => clearHistory(kind)}
+            disabled={total === 0}
+            className="text-zinc-500 hover:text-red-300 hover:bg-zinc-800"
+            aria-label="Xóa lịch sử"
+            title="Xóa toàn bộ lịch sử"
+          >
+            <Trash2Icon className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-5 space-y-3">
+          {visible.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-10">
+              {total === 0 ? 'Chưa có lần chạy nào được ghi lại' : 'Không có kết quả phù hợp'}
+            </p>
+          ) : (
+            visible.map((entry) => (
+              <HistoryItem
+                key={entry.id}
+                entry={entry}
+                disabled={disabled}
+                onRestore={() => onRestore(entry.sql)}
+                onRerun={() => onRerun(entry.sql)}
+                onRemove={() => removeEntry(entry.id)}
+              />
+            ))
+          )}
+        </div>
+      </motion.aside>
+    </motion.div>
+  );
+}
+
+interface HistoryItemProps {
+  entry: HistoryEntry;
+  disabled?: boolean;
+  onRestore: () => void;
+  onRerun: () => void;
+  onRemove: () => void;
+}
+
+function HistoryItem({ entry, disabled, onRestore, onRerun, onRemove }: HistoryItemProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl border p-3 bg-zinc-950/40',
+        entry.success ? 'border-white/10' : 'border-red-500/20'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="flex items-center gap-1.5">
+          {entry.success ? (
+            <CheckCircle2Icon className="w-3.5 h-3.5 text-emerald-400" />
+          ) : (
+            <XCircleIcon className="w-3.5 h-3.5 text-red-400" />
+          )}
+          <span className="text-zinc-400">{formatTimestamp(entry.executedAt)}</span>
+        </span>
+        {entry.rowCount !== null && (
+          <span className="text-zinc-500">{entry.rowCount} dòng</span>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setExpanded((open) => !open)}
+        className="w-full text-left mt-2"
+        title={expanded ? 'Thu gọn' : 'Mở rộng'}
+      >
+        <pre
+          className={cn(
+            'text-xs font-mono text-zinc-300 bg-zinc-800/50 px-3 py-2 rounded-lg whitespace-pre-wrap break-all',
+            !expanded && 'line-clamp-3'
+          )}
+        >
+          {entry.sql}
+        </pre>
+      </button>
+
+      {entry.messages.length > 0 && (
+        <ul className={cn('mt-2 space-y-0.5 text-xs', entry.success ? 'text-zinc-500' : 'text-red-300/80')}>
+          {(expanded ? entry.messages : entry.messages.slice(0, 2)).map((message, index) => (
+            <li key={index} className="truncate" title={message}>{message}</li>
+          ))}
+          {!expanded && entry.messages.length > 2 && (
+            <li className="text-zinc-600">+{entry.messages.length - 2} thông báo khác</li>
+          )}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end gap-1 mt-3">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="text-zinc-500 hover:text-red-300 hover:bg-zinc-800 mr-auto"
+          aria-label="Xóa mục này"
+        >
+          <Trash2Icon className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRestore}
+          className="text-zinc-300 hover:text-white hover:bg-zinc-800"
+        >
+          <Undo2Icon className="w-3.5 h-3.5" />
+          Khôi phục
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRerun}
+          disabled={disabled}
+          className="text-violet-300 hover:text-violet-200 hover:bg-violet-500/10"
+        >
+          <PlayIcon className="w-3.5 h-3.5" />
+          Chạy lại
+        </Button>
+      </div>
+    </div>
+  );
+}
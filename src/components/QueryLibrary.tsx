@@ -0,0 +1,350 @@
+/**
+ * Query Library - Built-in examples and saved queries, grouped by folder
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { BookmarkPlusIcon, DownloadIcon, FolderIcon, Trash2Icon, UploadIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/download';
+import {
+  exportLibrary,
+  parseLibraryFile,
+  parseTags,
+  useLibraryStore,
+  withBuiltInQueries,
+  type SavedQuery,
+} from '@/store/library';
+
+interface QueryLibraryProps {
+  /** SQL in the editor, offered for saving */
+  currentSQL: string;
+  onSelect: (sql: string) => void;
+}
+
+type LibraryNotice = { kind: 'success' | 'error'; message: string } | null;
+
+const NO_FOLDER = 'Chưa phân loại';
+
+export function QueryLibrary({ currentSQL, onSelect }: QueryLibraryProps) {
+  const { queries: savedQueries, saveQuery, deleteQuery, importQueries } = useLibraryStore();
+  const queries = useMemo(() => withBuiltInQueries(savedQueries), [savedQueries]);
+
+  const [activeFolder, setActiveFolder] = useState<string | null>(null);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [notice, setNotice] = useState<LibraryNotice>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const folders = useMemo(
+    () => [...new Set(queries.map((query) => query.folder ?? NO_FOLDER))],
+    [queries]
+  );
+  const tags = useMemo(
+    () => [...new Set(queries.flatMap((query) => query.tags))].sort((a, b) => a.localeCompare(b)),
+    [queries]
+  );
+
+  // Folder headings in first-seen order, each holding the queries that pass the filters
+  const groups = useMemo(() => {
+    const visible = queries.filter((query) =>
+      (activeFolder === null || (query.folder ?? NO_FOLDER) === activeFolder) &&
+      activeTags.every((tag) => query.tags.includes(tag))
+    );
+    return folders
+      .map((folder) => ({ folder, queries: visible.filter((query) => (query.folder ?? NO_FOLDER) === folder) }))
+      .filter((group) => group.queries.length > 0);
+  }, [queries, folders, activeFolder, activeTags]);
+
+  const toggleTag = (tag: string) => {
+    setActiveTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  };
+
+  const handleExport = () => {
+    downloadFile('sql-viz-library.json', exportLibrary(savedQueries), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importQueries(parseLibraryFile(await file.text()));
+      setNotice({ kind: 'success', message: `Đã nhập ${count} query từ ${file.name}` });
+    } catch (error) {
+      setNotice({ kind: 'error', message: error instanceof Error ? error.message : 'Không thể nhập file' });
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h3 className="font-semibold text-zinc-200">Thư Viện Query</h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowSaveForm((open) => !open)}
+            disabled={!currentSQL.trim()}
+            className="border-violet-500/30 text-violet-300 hover:bg-violet-500/10"
+          >
+            <BookmarkPlusIcon className="w-4 h-4" />
+            Lưu query hiện tại
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+          >
+            <UploadIcon className="w-4 h-4" />
+            Nhập
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={savedQueries.length === 0}
+            className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Xuất
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) handleImport(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {/* Import Result */}
+      {notice && (
+        <div
+          className={cn(
+            'flex items-center justify-between gap-3 px-4 py-2 rounded-xl border text-sm',
+            notice.kind === 'success'
+              ? 'bg-emerald-900/20 border-emerald-500/30 text-emerald-300'
+              : 'bg-red-900/30 border-red-500/30 text-red-300'
+          )}
+        >
+          {notice.message}
+          <button onClick={() => setNotice(null)} className="text-xs opacity-70 hover:opacity-100">
+            Đóng
+          </button>
+        </div>
+      )}
+
+      {/* Save Form */}
+      <AnimatePresence>
+        {showSaveForm && (
+          <SaveQueryForm
+            folders={folders.filter((folder) => folder !== NO_FOLDER)}
+            onCancel={() => setShowSaveForm(false)}
+            onSave={(input) => {
+              saveQuery({ ...input, sql: currentSQL });
+              setShowSaveForm(false);
+              setNotice({ kind: 'success', message: `Đã lưu "${input.name}"` });
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap text-sm">
+        <FilterChip active={activeFolder === null} onClick={() => setActiveFolder(null)}>
+          Tất cả
+        </FilterChip>
+        {folders.map((folder) => (
+          <FilterChip
+            key={folder}
+            active={activeFolder === folder}
+            onClick={() => setActiveFolder(activeFolder === folder ? null : folder)}
+          >
+            <FolderIcon className="w-3.5 h-3.5" />
+            {folder}
+          </FilterChip>
+        ))}
+        {tags.length > 0 && <span className="w-px h-5 bg-white/10 mx-1" />}
+        {tags.map((tag) => (
+          <FilterChip key={tag} active={activeTags.includes(tag)} onClick={() => toggleTag(tag)}>
+            #{tag}
+          </FilterChip>
+        ))}
+      </div>
+
+      {/* Queries */}
+      {groups.length === 0 ? (
+        <p className="text-sm text-zinc-500">Không có query nào khớp bộ lọc</p>
+      ) : (
+        groups.map((group) => (
+          <div key={group.folder} className="space-y-3">
+            <h4 className="flex items-center gap-2 text-sm font-medium text-zinc-400">
+              <FolderIcon className="w-4 h-4" />
+              {group.folder}
+              <span className="text-zinc-600">({group.queries.length})</span>
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              {group.queries.map((query) => (
+                <ExampleCard
+                  key={query.id}
+                  query={query}
+                  onClick={onSelect}
+                  onDelete={query.builtIn ? undefined : () => deleteQuery(query.id)}
+                />
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+interface FilterChipProps {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+function FilterChip({ active, onClick, children }: FilterChipProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-1.5 px-3 py-1 rounded-lg border transition-colors',
+        active
+          ? 'bg-violet-500/20 border-violet-500/40 text-violet-200'
+          : 'bg-zinc-800/40 border-white/10 text-zinc-400 hover:text-zinc-200'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface SaveQueryFormProps {
+  folders: string[];
+  onCancel: () => void;
+  onSave: (input: { name: string; folder: string | null; tags: string[]; description?: string }) => void;
+}
+
+function SaveQueryForm({ folders, onCancel, onSave }: SaveQueryFormProps) {
+  const [name, setName] = useState('');
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [description, setDescription] = useState('');
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg bg-zinc-800/60 border border-white/10 text-sm text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:border-violet-500/50';
+
+  return (
+    <motion.form
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!name.trim()) return;
+        onSave({
+          name: name.trim(),
+          folder: folder.trim() || null,
+          tags: parseTags(tags),
+          description: description.trim() || undefined,
+        });
+      }}
+      className="overflow-hidden"
+    >
+      <div className="p-4 bg-zinc-900/50 rounded-2xl border border-white/10 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          autoFocus
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Tên query (bắt buộc)"
+          className={inputClass}
+        />
+        <input
+          value={folder}
+          onChange={(event) => setFolder(event.target.value)}
+          placeholder="Thư mục"
+          list="query-library-folders"
+          className={inputClass}
+        />
+        <datalist id="query-library-folders">
+          {folders.map((f) => <option key={f} value={f} />)}
+        </datalist>
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="Tags, cách nhau bởi dấu phẩy"
+          className={inputClass}
+        />
+        <input
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          placeholder="Mô tả"
+          className={inputClass}
+        />
+        <p className="text-xs text-zinc-500 md:col-span-2">
+          Lưu trùng tên trong cùng thư mục sẽ ghi đè query cũ.
+        </p>
+        <div className="flex justify-end gap-2 md:col-span-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="text-zinc-400 hover:bg-zinc-800">
+            Hủy
+          </Button>
+          <Button type="submit" size="sm" disabled={!name.trim()} className="bg-violet-600 hover:bg-violet-500 text-white">
+            Lưu
+          </Button>
+        </div>
+      </div>
+    </motion.form>
+  );
+}
+
+interface ExampleCardProps {
+  query: SavedQuery;
+  onClick: (sql: string) => void;
+  onDelete?: () => void;
+}
+
+function ExampleCard({ query, onClick, onDelete }: ExampleCardProps) {
+  return (
+    <div className="relative group">
+      <button
+        onClick={() => onClick(query.sql)}
+        className="w-full h-full p-5 bg-zinc-900/50 rounded-2xl border border-white/5 hover:border-violet-500/30 hover:bg-zinc-900/70 transition-all text-left"
+      >
+        <h4 className="font-semibold text-zinc-200 group-hover:text-violet-300 transition-colors pr-8">
+          {query.name}
+        </h4>
+        {query.description && <p className="text-sm text-zinc-500 mt-2">{query.description}</p>}
+        <code className="text-xs font-mono text-zinc-400 bg-zinc-800/50 px-3 py-2 rounded-lg block mt-3 overflow-x-auto whitespace-pre">
+          {query.sql}
+        </code>
+        {query.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {query.tags.map((tag) => (
+              <span key={tag} className="px-2 py-0.5 rounded-md bg-zinc-800 text-xs text-zinc-400">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </button>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="absolute top-4 right-4 p-1.5 rounded-lg text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-red-300 hover:bg-zinc-800 transition-all"
+          aria-label={`Xóa ${query.name}`}
+          title="Xóa query"
+        >
+          <Trash2Icon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
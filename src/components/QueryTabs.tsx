@@ -0,0 +1,129 @@
+/**
+ * Query Tabs - Switch, rename, reorder (drag) and close query editor tabs
+ */
+
+import { useState } from 'react';
+import { Reorder } from 'motion/react';
+import { ChartNoAxesGanttIcon, PlusIcon, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAppStore, type QueryTab } from '@/store';
+
+export function QueryTabs() {
+  const {
+    queryTabs,
+    activeTabId,
+    visualization,
+    addQueryTab,
+    switchQueryTab,
+    closeQueryTab,
+    renameQueryTab,
+    reorderQueryTabs,
+  } = useAppStore();
+
+  return (
+    <div className="flex items-center gap-2 border-b border-white/10 overflow-x-auto">
+      <Reorder.Group
+        axis="x"
+        values={queryTabs.map((tab) => tab.id)}
+        onReorder={reorderQueryTabs}
+        className="flex items-end gap-1"
+      >
+        {queryTabs.map((tab) => (
+          <Reorder.Item key={tab.id} value={tab.id} className="shrink-0">
+            <TabButton
+              tab={tab}
+              active={tab.id === activeTabId}
+              // The active tab's visualization lives in the store, not in its tab entry
+              hasVisualization={tab.id === activeTabId ? !!visualization : !!tab.visualization}
+              closable={queryTabs.length > 1}
+              onSelect={() => switchQueryTab(tab.id)}
+              onClose={() => closeQueryTab(tab.id)}
+              onRename={(name) => renameQueryTab(tab.id, name)}
+            />
+          </Reorder.Item>
+        ))}
+      </Reorder.Group>
+      <button
+        onClick={addQueryTab}
+        className="shrink-0 p-1.5 mb-1 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800/60 transition-colors"
+        aria-label="Thêm tab"
+        title="Thêm tab query"
+      >
+        <PlusIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+interface TabButtonProps {
+  tab: QueryTab;
+  active: boolean;
+  hasVisualization: boolean;
+  closable: boolean;
+  onSelect: () => void;
+  onClose: () => void;
+  onRename: (name: string) => void;
+}
+
+function TabButton({ tab, active, hasVisualization, closable, onSelect, onClose, onRename }: TabButtonProps) {
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <div
+      onClick={onSelect}
+      onDoubleClick={() => setEditing(true)}
+      onAuxClick={(event) => {
+        // Middle click closes, as in browser tabs
+        if (event.button === 1 && closable) onClose();
+      }}
+      className={cn(
+        'group flex items-center gap-2 pl-3 pr-1.5 py-2 rounded-t-lg border-x border-t text-sm cursor-pointer select-none transition-colors',
+        active
+          ? 'bg-zinc-900/80 border-white/10 text-zinc-100'
+          : 'bg-transparent border-transparent text-zinc-500 hover:text-zinc-300'
+      )}
+      title="Nhấp đúp để đổi tên, kéo để sắp xếp"
+    >
+      {hasVisualization && (
+        <ChartNoAxesGanttIcon className={cn('w-3.5 h-3.5', active ? 'text-amber-400' : 'text-zinc-600')} />
+      )}
+      {editing ? (
+        <input
+          autoFocus
+          defaultValue={tab.name}
+          onClick={(event) => event.stopPropagation()}
+          onFocus={(event) => event.currentTarget.select()}
+          onBlur={(event) => {
+            onRename(event.currentTarget.value);
+            setEditing(false);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') event.currentTarget.blur();
+            if (event.key === 'Escape') {
+              event.currentTarget.value = tab.name;
+              event.currentTarget.blur();
+            }
+          }}
+          className="w-28 px-1 bg-zinc-800 border border-violet-500/50 rounded text-zinc-100 focus:outline-none"
+        />
+      ) : (
+        <span className="max-w-40 truncate">{tab.name}</span>
+      )}
+      {closable && (
+        <button
+          onClick={(event) => {
+            event.stopPropagation();
+            onClose();
+          }}
+          className={cn(
+            'p-0.5 rounded text-zinc-500 hover:text-zinc-100 hover:bg-zinc-700 transition-opacity',
+            active ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          )}
+          aria-label={`Đóng ${tab.name}`}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
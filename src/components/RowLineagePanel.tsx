@@ -0,0 +1,95 @@
+/**
+ * Row Lineage Panel - Follows one logical row through every data-flow step
+ */
+
+import { motion } from 'motion/react';
+import { CheckIcon, MinusIcon, XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RowTraceEntry } from '@/lib/rowLineage';
+import type { DataFlowStep } from '@/api/types';
+import { STEP_COLORS } from '@/api/types';
+
+interface RowLineagePanelProps {
+  trace: RowTraceEntry[];
+  dataFlow: DataFlowStep[];
+  currentStepIndex: number;
+  onStepClick: (index: number) => void;
+  onClose: () => void;
+}
+
+export function RowLineagePanel({
+  trace,
+  dataFlow,
+  currentStepIndex,
+  onStepClick,
+  onClose,
+}: RowLineagePanelProps) {
+  // The row is dropped where it is first filtered out, or where it stops appearing
+  const dropped = trace.find(
+    (entry, index) =>
+      entry.status === 'excluded' ||
+      (entry.status === 'absent' && index > 0 && trace[index - 1].status !== 'absent')
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="bg-amber-900/10 rounded-2xl border border-amber-500/30 p-5"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-semibold text-amber-200">Hành trình của dòng</h4>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50 transition-colors"
+          aria-label="Bỏ theo dõi dòng"
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {trace.map((entry) => {
+          const step = dataFlow[entry.stepIndex];
+          const stepColor = STEP_COLORS[step.stepType];
+
+          return (
+            <button
+              key={entry.stepIndex}
+              onClick={() => onStepClick(entry.stepIndex)}
+              title={entry.excludedReason}
+              className={cn(
+                'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors',
+                entry.status === 'absent' ? 'text-zinc-600' : 'text-zinc-200',
+                entry.stepIndex === currentStepIndex && 'ring-2 ring-amber-400/60'
+              )}
+              style={{
+                borderColor: entry.status === 'absent' ? '#3F3F46' : stepColor,
+                backgroundColor: entry.status === 'absent' ? 'transparent' : `${stepColor}20`,
+              }}
+            >
+              {entry.status === 'included' && <CheckIcon className="w-3.5 h-3.5 text-emerald-400" />}
+              {entry.status === 'excluded' && <XIcon className="w-3.5 h-3.5 text-red-400" />}
+              {entry.status === 'absent' && <MinusIcon className="w-3.5 h-3.5" />}
+              {step.stepType}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs mt-4">
+        {dropped ? (
+          <span className="text-red-300">
+            Bị loại ở bước <span className="font-semibold">{dataFlow[dropped.stepIndex].stepType}</span>
+            {dropped.excludedReason && (
+              <span className="text-red-300/70"> — {dropped.excludedReason}</span>
+            )}
+          </span>
+        ) : (
+          <span className="text-emerald-300">Dòng này có mặt trong kết quả cuối cùng</span>
+        )}
+      </p>
+    </motion.div>
+  );
+}
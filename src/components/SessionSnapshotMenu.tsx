@@ -0,0 +1,150 @@
+/**
+ * Session Snapshot Menu - Export the working state to a .sqlviz.json file and import it back
+ */
+
+import { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { FileDownIcon, FileUpIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/store';
+import { useExportSnapshot, useImportSnapshot } from '@/hooks/useApi';
+import { parseSnapshot, SNAPSHOT_EXTENSION, type SessionSnapshot } from '@/lib/sessionSnapshot';
+import { showToast } from '@/store/toast';
+
+type OpenPanel =
+  | { kind: 'export' }
+  | { kind: 'import'; snapshot: SessionSnapshot; fileName: string }
+  | null;
+
+export function SessionSnapshotMenu() {
+  const { visualization, isExecuting, sessionId } = useAppStore();
+  const exportSnapshot = useExportSnapshot();
+  const importSnapshot = useImportSnapshot();
+
+  const [panel, setPanel] = useState<OpenPanel>(null);
+  const [includeVisualization, setIncludeVisualization] = useState(true);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      setPanel({ kind: 'import', snapshot: parseSnapshot(await file.text()), fileName: file.name });
+    } catch (error) {
+      showToast({
+        kind: 'error',
+        title: `Không thể đọc ${file.name}`,
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const iconButtonClass = 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50';
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <Button
+        onClick={() => setPanel(panel?.kind === 'export' ? null : { kind: 'export' })}
+        disabled={!sessionId}
+        variant="ghost"
+        size="icon"
+        className={iconButtonClass}
+        aria-label="Xuất phiên"
+        title={`Xuất phiên (${SNAPSHOT_EXTENSION})`}
+      >
+        <FileDownIcon className="w-5 h-5" />
+      </Button>
+      <Button
+        onClick={() => fileInput.current?.click()}
+        disabled={isExecuting}
+        variant="ghost"
+        size="icon"
+        className={iconButtonClass}
+        aria-label="Nhập phiên"
+        title={`Nhập phiên (${SNAPSHOT_EXTENSION})`}
+      >
+        <FileUpIcon className="w-5 h-5" />
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) handleFile(file);
+          event.target.value = '';
+        }}
+      />
+
+      <AnimatePresence>
+        {panel && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute right-0 top-full mt-2 w-80 z-20 p-4 rounded-xl border border-white/10 bg-zinc-900 shadow-xl text-sm space-y-3"
+          >
+            {panel.kind === 'export' ? (
+              <>
+                <p className="text-zinc-300">
+                  Lưu SQL thiết lập, dữ liệu hiện tại của các bảng và các tab query vào một file.
+                </p>
+                <label className="flex items-center gap-2 text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={includeVisualization && !!visualization}
+                    disabled={!visualization}
+                    onChange={(event) => setIncludeVisualization(event.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  Kèm luồng thực thi đang mở
+                </label>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setPanel(null)} className="text-zinc-400 hover:bg-zinc-800">
+                    Hủy
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={exportSnapshot.isPending}
+                    onClick={() =>
+                      exportSnapshot.mutate({ includeVisualization }, { onSuccess: () => setPanel(null) })
+                    }
+                    className="bg-violet-600 hover:bg-violet-500 text-white"
+                  >
+                    {exportSnapshot.isPending ? 'Đang xuất...' : 'Tải xuống'}
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-zinc-300">
+                  Nhập <span className="font-mono text-zinc-100">{panel.fileName}</span>:{' '}
+                  {panel.snapshot.tables.length} bảng, {panel.snapshot.queries.length} query
+                  {panel.snapshot.visualization ? ', kèm luồng thực thi' : ''}.
+                </p>
+                <p className="text-xs text-amber-300/80">
+                  Một phiên mới sẽ được tạo; bảng, SQL và các tab query hiện tại sẽ bị thay thế.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setPanel(null)} className="text-zinc-400 hover:bg-zinc-800">
+                    Hủy
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={isExecuting}
+                    onClick={() => {
+                      importSnapshot.mutate(panel.snapshot);
+                      setPanel(null);
+                    }}
+                    className="bg-violet-600 hover:bg-violet-500 text-white"
+                  >
+                    Nhập
+                  </Button>
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
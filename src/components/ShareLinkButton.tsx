@@ -0,0 +1,95 @@
+/**
+ * Share Link Button - copies a permalink that replays the setup and query
+ */
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { CheckIcon, Share2Icon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { buildShareUrl, encodeSharedQuery, type SharedQuery } from '@/lib/permalink';
+
+type ShareStatus =
+  | { kind: 'idle' }
+  | { kind: 'copied' }
+  | { kind: 'manual'; url: string }
+  | { kind: 'error'; message: string };
+
+export function ShareLinkButton(props: SharedQuery) {
+  const [status, setStatus] = useState<ShareStatus>({ kind: 'idle' });
+
+  // Confirmation fades on its own; errors and the manual-copy box stay until clicked away
+  useEffect(() => {
+    if (status.kind !== 'copied') return;
+    const timer = setTimeout(() => setStatus({ kind: 'idle' }), 2000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const handleShare = async () => {
+    let url: string;
+    try {
+      url = buildShareUrl(await encodeSharedQuery(props));
+    } catch (error) {
+      setStatus({ kind: 'error', message: error instanceof Error ? error.message : 'Không thể tạo link chia sẻ' });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ kind: 'copied' });
+    } catch {
+      setStatus({ kind: 'manual', url });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        onClick={handleShare}
+        variant="ghost"
+        size="icon"
+        className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+        aria-label="Chia sẻ"
+        title="Sao chép link chia sẻ"
+      >
+        {status.kind === 'copied' ? <CheckIcon className="w-5 h-5 text-emerald-400" /> : <Share2Icon className="w-5 h-5" />}
+      </Button>
+
+      <AnimatePresence>
+        {status.kind !== 'idle' && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            onClick={() => status.kind !== 'manual' && setStatus({ kind: 'idle' })}
+            className="absolute right-0 top-full mt-2 w-80 z-20 p-3 rounded-xl border border-white/10 bg-zinc-900 shadow-xl text-sm"
+          >
+            {status.kind === 'copied' && (
+              <p className="text-emerald-300">Đã sao chép link vào clipboard</p>
+            )}
+            {status.kind === 'error' && (
+              <p className="text-red-300">{status.message}</p>
+            )}
+            {status.kind === 'manual' && (
+              <div className="space-y-2">
+                <p className="text-zinc-300">Không thể truy cập clipboard, hãy sao chép link bên dưới:</p>
+                <input
+                  readOnly
+                  autoFocus
+                  value={status.url}
+                  onFocus={(e) => e.currentTarget.select()}
+                  className="w-full px-2 py-1 rounded-lg bg-zinc-800 border border-white/10 text-zinc-200 font-mono text-xs"
+                />
+                <button
+                  onClick={() => setStatus({ kind: 'idle' })}
+                  className="text-xs text-zinc-500 hover:text-zinc-300"
+                >
+                  Đóng
+                </button>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
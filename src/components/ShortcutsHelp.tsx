@@ -0,0 +1,85 @@
+/**
+ * Keyboard Shortcuts Help - Cheat-sheet overlay for step navigation keys
+ */
+
+import { useEffect } from 'react';
+import { motion } from 'motion/react';
+import { KeyboardIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { STEP_SHORTCUTS } from '@/hooks/useStepShortcuts';
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export function ShortcutsHelp({ onClose }: ShortcutsHelpProps) {
+  // Handle escape key
+  useEffect(() => {
+    function handleEscape(event: KeyboardEvent) {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+    >
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-help-title"
+        onClick={(event) => event.stopPropagation()}
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 20, scale: 0.95 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="w-full max-w-sm bg-zinc-900 rounded-2xl border border-zinc-800 shadow-2xl shadow-black/50 overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-5 pt-5 pb-4 border-b border-zinc-800">
+          <h2 id="shortcuts-help-title" className="text-lg font-semibold text-white flex items-center gap-2">
+            <KeyboardIcon className="w-5 h-5 text-violet-400" />
+            Phím tắt
+          </h2>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+            aria-label="Đóng"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <ul className="p-5 space-y-3">
+          {STEP_SHORTCUTS.map((shortcut) => (
+            <li key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-zinc-400">{shortcut.description}</span>
+              <span className="flex items-center gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-7 px-1.5 py-0.5 bg-zinc-800 border border-zinc-700 rounded text-center text-zinc-300 font-mono text-xs"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </motion.div>
+    </motion.div>
+  );
+}
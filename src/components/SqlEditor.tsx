@@ -6,6 +6,9 @@ import { useRef, useCallback } from 'react';
 import Editor, { type OnMount, useMonaco } from '@monaco-editor/react';
 import { useEffect } from 'react';
 import type { editor } from 'monaco-editor';
+import { registerSqlCompletion } from '@/lib/sqlCompletion';
+import { locateSqlError, type SqlErrorInfo } from '@/lib/sqlErrors';
+import { useAppStore } from '@/store';
 
 interface SqlEditorProps {
   value: string;
@@ -14,14 +17,18 @@ interface SqlEditorProps {
   height?: string;
   readOnly?: boolean;
   placeholder?: string;
+  error?: SqlErrorInfo | null;
 }
 
+const ERROR_MARKER_OWNER = 'sql-errors';
+
 export function SqlEditor({
   value,
   onChange,
   onExecute,
   height = '300px',
   readOnly = false,
+  error,
 }: SqlEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
   const monaco = useMonaco();
@@ -81,6 +88,38 @@ export function SqlEditor({
     }
   }, [monaco]);
 
+  // Suggest tables, columns, keywords and functions from the current schema
+  useEffect(() => {
+    if (!monaco) return;
+    const completion = registerSqlCompletion(monaco, () => useAppStore.getState().tables);
+    return () => completion.dispose();
+  }, [monaco]);
+
+  // Show backend SQL errors as markers on the script that produced them
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const range = error && error.sql === model.getValue() ? locateSqlError(error) : null;
+    if (!range) {
+      monaco.editor.setModelMarkers(model, ERROR_MARKER_OWNER, []);
+      return;
+    }
+
+    const start = model.getPositionAt(range.start);
+    const end = model.getPositionAt(range.end);
+    monaco.editor.setModelMarkers(model, ERROR_MARKER_OWNER, [
+      {
+        severity: monaco.MarkerSeverity.Error,
+        message: range.message,
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+      },
+    ]);
+  }, [monaco, error]);
+
   const handleEditorDidMount: OnMount = useCallback(
     (editor, monacoInstance) => {
       editorRef.current = editor;
@@ -121,9 +160,14 @@ export function SqlEditor({
 
   const handleEditorChange = useCallback(
     (value: string | undefined) => {
+      // Markers point at the text that failed; any edit makes them stale
+      const model = editorRef.current?.getModel();
+      if (monaco && model) {
+        monaco.editor.setModelMarkers(model, ERROR_MARKER_OWNER, []);
+      }
       onChange(value || '');
     },
-    [onChange]
+    [monaco, onChange]
   );
 
   return (
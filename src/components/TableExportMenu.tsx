@@ -0,0 +1,125 @@
+/**
+ * Table Export Menu - copy or download a table as CSV, TSV, JSON, Markdown or INSERT statements
+ */
+
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { CopyIcon, DownloadIcon, XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/download';
+import { EXPORT_FORMATS, exportFileName, formatTable, type ExportFormat, type ExportTable } from '@/lib/tableExport';
+import { showToast } from '@/store/toast';
+import type { RowState } from '@/api/types';
+
+interface TableExportMenuProps {
+  /** File name and INSERT target */
+  name: string;
+  columns: string[];
+  /** Rows in the order shown */
+  rows: RowState[];
+  /** The rows are what is left after the table's filters */
+  filtered?: boolean;
+}
+
+export function TableExportMenu({ name, columns, rows, filtered = false }: TableExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [includeExcluded, setIncludeExcluded] = useState(false);
+
+  const excludedCount = rows.filter((row) => !row.included).length;
+
+  const buildTable = (): ExportTable => ({
+    name,
+    columns,
+    rows: rows.filter((row) => row.included || includeExcluded).map((row) => row.data),
+  });
+
+  const formatInfo = EXPORT_FORMATS[format];
+  const formatLabel = formatInfo.label;
+
+  const handleCopy = async () => {
+    const table = buildTable();
+    try {
+      await navigator.clipboard.writeText(formatTable(format, table));
+      showToast({ kind: 'success', title: `Đã sao chép ${table.rows.length} dòng (${formatLabel})` }, 3000);
+    } catch {
+      showToast({ kind: 'error', title: 'Không thể truy cập clipboard', message: 'Hãy dùng nút tải xuống.' });
+    }
+  };
+
+  const handleDownload = () => {
+    const table = buildTable();
+    downloadFile(exportFileName(table, format), formatTable(format, table), formatInfo.mimeType);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 text-zinc-500 hover:text-zinc-200 transition-colors"
+        title="Xuất dữ liệu bảng"
+      >
+        <DownloadIcon className="w-3.5 h-3.5" />
+        Xuất
+      </button>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 8 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="flex items-center gap-2 flex-wrap justify-end"
+    >
+      <div className="flex items-center rounded-lg border border-white/10 overflow-hidden">
+        {Object.values(EXPORT_FORMATS).map((info) => (
+          <button
+            key={info.id}
+            onClick={() => setFormat(info.id)}
+            className={cn(
+              'px-2 py-1 transition-colors',
+              format === info.id ? 'bg-violet-500/20 text-violet-200' : 'text-zinc-400 hover:text-zinc-200'
+            )}
+          >
+            {info.label}
+          </button>
+        ))}
+      </div>
+      {filtered && <span className="text-amber-300/80">Chỉ {rows.length} dòng khớp bộ lọc</span>}
+      {excludedCount > 0 && (
+        <label className="flex items-center gap-1.5 text-zinc-400">
+          <input
+            type="checkbox"
+            checked={includeExcluded}
+            onChange={(event) => setIncludeExcluded(event.target.checked)}
+            className="accent-violet-500"
+          />
+          Kèm {excludedCount} dòng bị loại
+        </label>
+      )}
+      <button
+        onClick={handleCopy}
+        className="p-1.5 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+        aria-label="Sao chép"
+        title={`Sao chép ${formatLabel}`}
+      >
+        <CopyIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={handleDownload}
+        className="p-1.5 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+        aria-label="Tải xuống"
+        title={`Tải xuống ${formatLabel}`}
+      >
+        <DownloadIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => setOpen(false)}
+        className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-200"
+        aria-label="Đóng"
+      >
+        <XIcon className="w-3.5 h-3.5" />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Toaster - Renders the toasts from the toast store
+ */
+
+import { motion, AnimatePresence } from 'motion/react';
+import { AlertCircleIcon, CheckCircle2Icon, InfoIcon, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToastStore, type ToastKind } from '@/store/toast';
+
+const TOAST_STYLES: Record<ToastKind, { icon: React.ComponentType<{ className?: string }>; className: string }> = {
+  info: { icon: InfoIcon, className: 'border-sky-500/30 text-sky-300' },
+  success: { icon: CheckCircle2Icon, className: 'border-emerald-500/30 text-emerald-300' },
+  error: { icon: AlertCircleIcon, className: 'border-red-500/30 text-red-300' },
+};
+
+export function Toaster() {
+  const { toasts, dismissToast } = useToastStore();
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50 flex flex-col gap-3 w-full max-w-sm pointer-events-none">
+      <AnimatePresence>
+        {toasts.map((toast) => {
+          const { icon: Icon, className } = TOAST_STYLES[toast.kind];
+          return (
+            <motion.div
+              key={toast.id}
+              layout
+              role="status"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className={cn(
+                'pointer-events-auto flex items-start gap-3 p-4 rounded-xl border bg-zinc-900/95 backdrop-blur shadow-xl shadow-black/40',
+                className
+              )}
+            >
+              <Icon className="w-5 h-5 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-sm">{toast.title}</p>
+                {toast.message && <p className="text-sm text-zinc-400 mt-1">{toast.message}</p>}
+              </div>
+              <button
+                onClick={() => dismissToast(toast.id)}
+                className="text-zinc-500 hover:text-zinc-200"
+                aria-label="Đóng"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
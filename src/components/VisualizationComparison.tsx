@@ -0,0 +1,244 @@
+/**
+ * Visualization Comparison - Two query runs aligned step by step with their row differences
+ */
+
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronDownIcon, EqualIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { compareVisualizations, type AlignedStep, type RowSetDiff } from '@/lib/compareVisualizations';
+import type { DataFlowStep, RowData } from '@/api/types';
+import { STEP_COLORS, STEP_DESCRIPTIONS } from '@/api/types';
+import type { QueryComparison } from '@/store';
+
+interface VisualizationComparisonProps {
+  comparison: QueryComparison;
+}
+
+export function VisualizationComparison({ comparison }: VisualizationComparisonProps) {
+  const { steps, finalResult } = useMemo(
+    () => compareVisualizations(comparison.left, comparison.right),
+    [comparison]
+  );
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-6">
+      {/* Aligned steps */}
+      <div className="bg-zinc-900/50 rounded-2xl border border-white/10 overflow-hidden">
+        <div className="grid grid-cols-[minmax(0,1.4fr)_repeat(2,minmax(0,1fr))_minmax(0,1.2fr)_auto] gap-4 px-5 py-3 bg-zinc-800/30 border-b border-white/10 text-xs font-medium text-zinc-400">
+          <span>Bước</span>
+          <span className="text-rose-300">Query A</span>
+          <span className="text-sky-300">Query B</span>
+          <span>Khác biệt</span>
+          <span className="w-4" />
+        </div>
+        {steps.map((step, index) => (
+          <AlignedStepRow
+            key={`${step.stepType}-${step.occurrence}`}
+            step={step}
+            expanded={expanded === index}
+            onToggle={() => setExpanded(expanded === index ? null : index)}
+          />
+        ))}
+      </div>
+
+      {/* Final result */}
+      <div className="bg-zinc-900/50 rounded-2xl border border-white/10 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-200">Khác biệt ở kết quả cuối cùng</h3>
+          <span className="text-sm text-zinc-400">
+            A: {comparison.left.finalResult.rows.length} dòng · B: {comparison.right.finalResult.rows.length} dòng
+          </span>
+        </div>
+        <RowDiffDetail diff={finalResult} />
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Aligned Step Row
+// ============================================
+
+interface AlignedStepRowProps {
+  step: AlignedStep;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function AlignedStepRow({ step, expanded, onToggle }: AlignedStepRowProps) {
+  const color = STEP_COLORS[step.stepType];
+  const expandable = step.diff !== null && (step.diff.onlyLeft.length > 0 || step.diff.onlyRight.length > 0);
+
+  return (
+    <div className="border-b border-white/5 last:border-b-0">
+      <button
+        onClick={onToggle}
+        disabled={!expandable}
+        className={cn(
+          'w-full grid grid-cols-[minmax(0,1.4fr)_repeat(2,minmax(0,1fr))_minmax(0,1.2fr)_auto] gap-4 items-center px-5 py-3 text-left text-sm transition-colors',
+          expandable ? 'hover:bg-zinc-800/40' : 'cursor-default'
+        )}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <span
+            className="px-2 py-0.5 rounded-md text-xs font-mono font-semibold text-white shrink-0"
+            style={{ backgroundColor: color }}
+          >
+            {step.stepType}
+          </span>
+          <span className="text-xs text-zinc-500 truncate">{STEP_DESCRIPTIONS[step.stepType]}</span>
+        </span>
+        <StepCount step={step.left} />
+        <StepCount step={step.right} />
+        <DiffSummary step={step} />
+        <ChevronDownIcon
+          className={cn(
+            'w-4 h-4 text-zinc-500 transition-transform',
+            expanded && 'rotate-180',
+            !expandable && 'invisible'
+          )}
+        />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {expanded && step.diff && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-5 pb-5">
+              <RowDiffDetail diff={step.diff} />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+function StepCount({ step }: { step: DataFlowStep | null }) {
+  if (!step) {
+    return <span className="text-xs italic text-zinc-600">Không có bước này</span>;
+  }
+  const included = step.rows.filter((row) => row.included).length;
+  return (
+    <span className="text-zinc-300">
+      {included} dòng
+      {included < step.rows.length && (
+        <span className="text-xs text-red-400/70"> (loại {step.rows.length - included})</span>
+      )}
+    </span>
+  );
+}
+
+function DiffSummary({ step }: { step: AlignedStep }) {
+  if (!step.diff) {
+    return (
+      <span className="text-xs text-amber-400/80">
+        Chỉ có ở {step.left ? 'A' : 'B'}
+      </span>
+    );
+  }
+  const { onlyLeft, onlyRight } = step.diff;
+  if (onlyLeft.length === 0 && onlyRight.length === 0) {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-emerald-400/80">
+        <EqualIcon className="w-3.5 h-3.5" /> Giống nhau
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-3 text-xs font-mono">
+      {onlyLeft.length > 0 && <span className="text-rose-300">−{onlyLeft.length} chỉ ở A</span>}
+      {onlyRight.length > 0 && <span className="text-sky-300">+{onlyRight.length} chỉ ở B</span>}
+    </span>
+  );
+}
+
+// ============================================
+// Row Diff Detail
+// ============================================
+
+function RowDiffDetail({ diff }: { diff: RowSetDiff }) {
+  if (diff.onlyLeft.length === 0 && diff.onlyRight.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-emerald-400/80">
+        <EqualIcon className="w-4 h-4" /> Hai query cho ra cùng {diff.commonCount} dòng
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">{diff.commonCount} dòng giống nhau ở cả hai query</p>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <DiffRows title="Chỉ có ở A" rows={diff.onlyLeft} columns={diff.columns} tone="left" />
+        <DiffRows title="Chỉ có ở B" rows={diff.onlyRight} columns={diff.columns} tone="right" />
+      </div>
+    </div>
+  );
+}
+
+interface DiffRowsProps {
+  title: string;
+  rows: RowData[];
+  columns: string[];
+  tone: 'left' | 'right';
+}
+
+function DiffRows({ title, rows, columns, tone }: DiffRowsProps) {
+  // Only show columns this side actually has
+  const visibleColumns = columns.filter((column) => rows.some((row) => column in row));
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl border overflow-hidden',
+        tone === 'left' ? 'border-rose-500/30' : 'border-sky-500/30'
+      )}
+    >
+      <div
+        className={cn(
+          'px-3 py-2 text-xs font-semibold',
+          tone === 'left' ? 'bg-rose-500/10 text-rose-300' : 'bg-sky-500/10 text-sky-300'
+        )}
+      >
+        {title} ({rows.length})
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-3 py-3 text-xs text-zinc-500">Không có dòng nào</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-zinc-500">
+                {visibleColumns.map((column) => (
+                  <th key={column} className="px-3 py-1.5 text-left font-medium">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className="border-t border-white/5 text-zinc-300">
+                  {visibleColumns.map((column) => (
+                    <td key={column} className="px-3 py-1.5">
+                      {row[column] === null ? (
+                        <span className="italic text-zinc-500">NULL</span>
+                      ) : (
+                        String(row[column] ?? '')
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Compare View - Two queries visualized against the same tables and compared
+ */
+
+import { motion } from 'motion/react';
+import { GitCompareArrowsIcon } from 'lucide-react';
+import { SqlEditor } from '../SqlEditor';
+import { VisualizationComparison } from '../VisualizationComparison';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/store';
+import { useCompareQueries } from '@/hooks/useApi';
+
+export function CompareView() {
+  const {
+    compareQueries,
+    setCompareQuery,
+    comparison,
+    isExecuting,
+    executionError,
+    sqlError,
+  } = useAppStore();
+  const compareQueriesMutation = useCompareQueries();
+
+  const canCompare = compareQueries.left.trim() !== '' && compareQueries.right.trim() !== '';
+
+  const handleCompare = () => {
+    if (canCompare) {
+      compareQueriesMutation.mutate(compareQueries);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="space-y-8"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between pb-2">
+        <div>
+          <h2 className="text-2xl font-bold text-zinc-100 flex items-center gap-4">
+            <span className="w-12 h-12 rounded-xl bg-linear-to-br from-rose-500 to-sky-500 flex items-center justify-center text-white shadow-lg shadow-rose-500/20">
+              <GitCompareArrowsIcon className="w-6 h-6" />
+            </span>
+            So Sánh Hai Query
+          </h2>
+          <p className="text-zinc-400 mt-3 ml-16">
+            Chạy hai query trên cùng dữ liệu và xem chúng khác nhau ở bước nào
+          </p>
+        </div>
+        <Button
+          onClick={handleCompare}
+          disabled={isExecuting || !canCompare}
+          size="lg"
+          className="bg-linear-to-r from-rose-600 to-sky-600 hover:from-rose-500 hover:to-sky-500 text-white font-semibold px-6"
+        >
+          {isExecuting ? (
+            <>
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              Đang thực thi...
+            </>
+          ) : (
+            <>
+              <GitCompareArrowsIcon className="w-5 h-5" />
+              So sánh
+            </>
+          )}
+        </Button>
+      </div>
+
+      {/* Editors */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+        <div className="space-y-2">
+          <span className="text-sm font-semibold text-rose-300">Query A</span>
+          <SqlEditor
+            value={compareQueries.left}
+            onChange={(sql) => setCompareQuery('left', sql)}
+            onExecute={handleCompare}
+            height="220px"
+            error={sqlError}
+          />
+        </div>
+        <div className="space-y-2">
+          <span className="text-sm font-semibold text-sky-300">Query B</span>
+          <SqlEditor
+            value={compareQueries.right}
+            onChange={(sql) => setCompareQuery('right', sql)}
+            onExecute={handleCompare}
+            height="220px"
+            error={sqlError}
+          />
+        </div>
+      </div>
+
+      {/* Error */}
+      {executionError && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="p-4 bg-red-900/30 border border-red-500/30 rounded-xl"
+        >
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-red-400 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div>
+              <h4 className="font-semibold text-red-300">Lỗi Query</h4>
+              <pre className="text-sm text-red-200/80 mt-1 whitespace-pre-wrap font-mono">{executionError}</pre>
+            </div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Comparison */}
+      {comparison ? (
+        <VisualizationComparison comparison={comparison} />
+      ) : (
+        <div className="p-10 text-center text-zinc-500 bg-zinc-900/30 rounded-2xl border border-white/10">
+          Bấm "So sánh" để chạy cả hai query và đối chiếu từng bước thực thi
+        </div>
+      )}
+    </motion.div>
+  );
+}
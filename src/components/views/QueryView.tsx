@@ -2,15 +2,22 @@
  * Query View - SQL Query editor for SELECT queries
  */
 
-import { motion } from 'motion/react';
+import { useCallback, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
 import { SqlEditor } from '../SqlEditor';
+import { QueryHistoryPanel } from '../QueryHistoryPanel';
+import { QueryLibrary } from '../QueryLibrary';
+import { QueryTabs } from '../QueryTabs';
 import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store';
 import { useVisualizeQuery } from '@/hooks/useApi';
+import { HistoryIcon } from 'lucide-react';
 
 export function QueryView() {
-  const { querySQL, setQuerySQL, isExecuting, executionError, tables } = useAppStore();
+  const { querySQL, setQuerySQL, isExecuting, executionError, tables, sqlError } = useAppStore();
   const visualizeQuery = useVisualizeQuery();
+  const [showHistory, setShowHistory] = useState(false);
+  const closeHistory = useCallback(() => setShowHistory(false), []);
 
   const handleVisualize = () => {
     if (querySQL.trim()) {
@@ -18,6 +25,17 @@ export function QueryView() {
     }
   };
 
+  const handleRestore = (sql: string) => {
+    setQuerySQL(sql);
+    setShowHistory(false);
+  };
+
+  const handleRerun = (sql: string) => {
+    setQuerySQL(sql);
+    setShowHistory(false);
+    visualizeQuery.mutate(sql);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -38,27 +56,39 @@ export function QueryView() {
             Viết một query để hiển thị luồng thực thi của nó
           </p>
         </div>
-        <Button
-          onClick={handleVisualize}
-          disabled={isExecuting || !querySQL.trim()}
-          size="lg"
-          className="bg-linear-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-semibold px-6"
-        >
-          {isExecuting ? (
-            <>
-              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              Đang thực thi...
-            </>
-          ) : (
-            <>
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-              </svg>
-              Hiển thị
-            </>
-          )}
-        </Button>
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={() => setShowHistory(true)}
+            variant="ghost"
+            size="icon"
+            className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+            aria-label="Lịch sử"
+            title="Lịch sử query"
+          >
+            <HistoryIcon className="w-5 h-5" />
+          </Button>
+          <Button
+            onClick={handleVisualize}
+            disabled={isExecuting || !querySQL.trim()}
+            size="lg"
+            className="bg-linear-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-semibold px-6"
+          >
+            {isExecuting ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                Đang thực thi...
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+                Hiển thị
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
       {/* Available Tables */}
@@ -76,13 +106,17 @@ export function QueryView() {
         </div>
       )}
 
-      {/* Editor */}
-      <SqlEditor
-        value={querySQL}
-        onChange={setQuerySQL}
-        onExecute={handleVisualize}
-        height="300px"
-      />
+      {/* Tabs & Editor */}
+      <div className="space-y-3">
+        <QueryTabs />
+        <SqlEditor
+          value={querySQL}
+          onChange={setQuerySQL}
+          onExecute={handleVisualize}
+          height="300px"
+          error={sqlError}
+        />
+      </div>
 
       {/* Error */}
       {executionError && (
@@ -145,57 +179,21 @@ export function QueryView() {
         </p>
       </div>
 
-      {/* Example Queries */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-        <ExampleCard
-          title="Lọc dữ liệu"
-          query="SELECT * FROM users WHERE age > 25;"
-          description="Lọc dữ liệu dựa trên điều kiện"
-          onClick={(q) => setQuerySQL(q)}
-        />
-        <ExampleCard
-          title="Kết nối bảng"
-          query="SELECT u.name, d.name as dept FROM users u JOIN departments d ON u.department_id = d.id;"
-          description="Kết nối dữ liệu từ nhiều bảng"
-          onClick={(q) => setQuerySQL(q)}
-        />
-        <ExampleCard
-          title="Tổng hợp dữ liệu"
-          query="SELECT department_id, COUNT(*) as count FROM users GROUP BY department_id;"
-          description="Nhóm và đếm dữ liệu"
-          onClick={(q) => setQuerySQL(q)}
-        />
-        <ExampleCard
-          title="Sắp xếp kết quả"
-          query="SELECT * FROM users ORDER BY age DESC LIMIT 3;"
-          description="Sắp xếp và giới hạn kết quả"
-          onClick={(q) => setQuerySQL(q)}
-        />
-      </div>
-    </motion.div>
-  );
-}
-
-interface ExampleCardProps {
-  title: string;
-  query: string;
-  description: string;
-  onClick: (query: string) => void;
-}
+      {/* Example & Saved Queries */}
+      <QueryLibrary currentSQL={querySQL} onSelect={setQuerySQL} />
 
-function ExampleCard({ title, query, description, onClick }: ExampleCardProps) {
-  return (
-    <button
-      onClick={() => onClick(query)}
-      className="p-5 bg-zinc-900/50 rounded-2xl border border-white/5 hover:border-violet-500/30 hover:bg-zinc-900/70 transition-all text-left group"
-    >
-      <h4 className="font-semibold text-zinc-200 group-hover:text-violet-300 transition-colors">
-        {title}
-      </h4>
-      <p className="text-sm text-zinc-500 mt-2">{description}</p>
-      <code className="text-xs font-mono text-zinc-400 bg-zinc-800/50 px-3 py-2 rounded-lg block mt-3 overflow-x-auto">
-        {query}
-      </code>
-    </button>
+      {/* History Drawer */}
+      <AnimatePresence>
+        {showHistory && (
+          <QueryHistoryPanel
+            kind="query"
+            onClose={closeHistory}
+            onRestore={handleRestore}
+            onRerun={handleRerun}
+            disabled={isExecuting}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
   );
 }
@@ -7,6 +7,7 @@ import { SimpleTable } from '../DataTable';
 import { ERDiagramView, SingleTableView } from '../ERDiagram';
 import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store';
+import { columnTypesFor } from '@/lib/cellFormat';
 
 export function SchemaView() {
   const { tables, tableData, erDiagram, setCurrentView } = useAppStore();
@@ -105,6 +106,7 @@ export function SchemaView() {
                 columns={table.columns}
                 rows={table.rows}
                 tableName={table.tableName}
+                columnTypes={columnTypesFor(table.columns, tables, table.tableName)}
               />
             </motion.div>
           ))}
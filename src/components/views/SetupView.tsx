@@ -2,16 +2,21 @@
  * Setup View - SQL Editor for creating tables and inserting data
  */
 
-import { motion } from 'motion/react';
-import { Code, Plus, Link as LinkIcon, PlayIcon } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Code, Plus, Link as LinkIcon, PlayIcon, HistoryIcon } from 'lucide-react';
 import { SqlEditor } from '../SqlEditor';
+import { QueryHistoryPanel } from '../QueryHistoryPanel';
+import { SessionSnapshotMenu } from '../SessionSnapshotMenu';
 import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store';
 import { useExecuteSQL } from '@/hooks/useApi';
 
 export function SetupView() {
-  const { setupSQL, setSetupSQL, isExecuting, executionError, executionMessage } = useAppStore();
+  const { setupSQL, setSetupSQL, isExecuting, executionError, executionMessage, sqlError } = useAppStore();
   const executeSQL = useExecuteSQL();
+  const [showHistory, setShowHistory] = useState(false);
+  const closeHistory = useCallback(() => setShowHistory(false), []);
 
   const handleExecute = () => {
     if (setupSQL.trim()) {
@@ -19,6 +24,17 @@ export function SetupView() {
     }
   };
 
+  const handleRestore = (sql: string) => {
+    setSetupSQL(sql);
+    setShowHistory(false);
+  };
+
+  const handleRerun = (sql: string) => {
+    setSetupSQL(sql);
+    setShowHistory(false);
+    executeSQL.mutate(sql);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -39,28 +55,41 @@ export function SetupView() {
             Viết SQL để tạo bảng và thêm dữ liệu mẫu. Điều này sẽ thiết lập cơ sở dữ liệu trong bộ nhớ.
           </p>
         </div>
-        <Button
-          onClick={handleExecute}
-          disabled={isExecuting || !setupSQL.trim()}
-          size="lg"
-          className="bg-linear-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-semibold px-6"
-        >
-          {isExecuting ? (
-            <>
-              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              Đang thực thi...
-            </>
-          ) : (
-            <>
-              {/* <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg> */}
-              <PlayIcon className="w-5 h-5" />
-              Chạy SQL
-            </>
-          )}
-        </Button>
+        <div className="flex items-center gap-3">
+          <SessionSnapshotMenu />
+          <Button
+            onClick={() => setShowHistory(true)}
+            variant="ghost"
+            size="icon"
+            className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+            aria-label="Lịch sử"
+            title="Lịch sử thiết lập"
+          >
+            <HistoryIcon className="w-5 h-5" />
+          </Button>
+          <Button
+            onClick={handleExecute}
+            disabled={isExecuting || !setupSQL.trim()}
+            size="lg"
+            className="bg-linear-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-semibold px-6"
+          >
+            {isExecuting ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                Đang thực thi...
+              </>
+            ) : (
+              <>
+                {/* <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg> */}
+                <PlayIcon className="w-5 h-5" />
+                Chạy SQL
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
       {/* Editor */}
@@ -69,6 +98,7 @@ export function SetupView() {
         onChange={setSetupSQL}
         onExecute={handleExecute}
         height="400px"
+        error={sqlError}
       />
 
       {/* Messages */}
@@ -129,6 +159,19 @@ export function SetupView() {
           example="FOREIGN KEY (user_id) REFERENCES users(id)"
         />
       </div>
+
+      {/* History Drawer */}
+      <AnimatePresence>
+        {showHistory && (
+          <QueryHistoryPanel
+            kind="setup"
+            onClose={closeHistory}
+            onRestore={handleRestore}
+            onRerun={handleRerun}
+            disabled={isExecuting}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
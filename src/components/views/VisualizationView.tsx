@@ -2,24 +2,65 @@
  * Visualization View - Shows query execution flow and data transformations
  */
 
-import { motion } from 'motion/react';
+import { useState, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
 import { DataFlowVisualizer } from '../DataFlowVisualizer';
+import { ShortcutsHelp } from '../ShortcutsHelp';
+import { ShareLinkButton } from '../ShareLinkButton';
+import { QueryTabs } from '../QueryTabs';
 import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store';
-import { RefreshCcwIcon } from 'lucide-react';
+import { usePlayback } from '@/hooks/usePlayback';
+import { useStepShortcuts } from '@/hooks/useStepShortcuts';
+import { KeyboardIcon, RefreshCcwIcon } from 'lucide-react';
 
 export function VisualizationView() {
   const {
     visualization,
+    tables,
+    tableData,
+    setupSQL,
+    queryTabs,
     currentStepIndex,
     setCurrentStepIndex,
     nextStep,
     prevStep,
     setCurrentView,
     setVisualization,
+    isPlaying,
+    playbackSpeed,
+    playbackLoop,
+    setIsPlaying,
+    togglePlayback,
+    setPlaybackSpeed,
+    setPlaybackLoop,
   } = useAppStore();
 
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const toggleShortcuts = useCallback(() => setShowShortcuts((open) => !open), []);
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
+
+  usePlayback();
+  useStepShortcuts({ enabled: !!visualization, onToggleHelp: toggleShortcuts });
+
+  // Any manual navigation takes over from autoplay
+  const handleStepClick = (index: number) => {
+    setIsPlaying(false);
+    setCurrentStepIndex(index);
+  };
+
+  const handlePrev = () => {
+    setIsPlaying(false);
+    prevStep();
+  };
+
+  const handleNext = () => {
+    setIsPlaying(false);
+    nextStep();
+  };
+
   const handleReset = () => {
+    setIsPlaying(false);
     setCurrentStepIndex(0);
   };
 
@@ -33,18 +74,20 @@ export function VisualizationView() {
       <motion.div
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
-        className="flex flex-col items-center justify-center py-20"
       >
-        <div className="w-20 h-20 bg-zinc-800 rounded-full flex items-center justify-center mb-4">
-          <svg className="w-10 h-10 text-zinc-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-          </svg>
+        {queryTabs.length > 1 && <QueryTabs />}
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="w-20 h-20 bg-zinc-800 rounded-full flex items-center justify-center mb-4">
+            <svg className="w-10 h-10 text-zinc-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          </div>
+          <h3 className="text-xl font-semibold text-zinc-300 mb-2">Không có luồng thực thi</h3>
+          <p className="text-zinc-500 mb-6">Chạy một query để xem luồng thực thi</p>
+          <Button onClick={() => setCurrentView('query')} variant="outline">
+            Đến Query
+          </Button>
         </div>
-        <h3 className="text-xl font-semibold text-zinc-300 mb-2">Không có luồng thực thi</h3>
-        <p className="text-zinc-500 mb-6">Chạy một query để xem luồng thực thi</p>
-        <Button onClick={() => setCurrentView('query')} variant="outline">
-          Đến Query
-        </Button>
       </motion.div>
     );
   }
@@ -69,28 +112,63 @@ export function VisualizationView() {
             Xem qua luồng thực thi của query để xem dữ liệu biến đổi ở từng bước
           </p>
         </div>
-        <Button
-          onClick={handleNewQuery}
-          variant="outline"
-          className="border-violet-500/30 text-violet-300 hover:bg-violet-500/10 px-5 py-2.5"
-        >
-          {/* <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg> */}
-          <RefreshCcwIcon className="w-5 h-5 mr-2" />
-          Query Mới
-        </Button>
+        <div className="flex items-center gap-3">
+          <ShareLinkButton
+            setupSQL={setupSQL}
+            querySQL={visualization.originalQuery}
+            step={currentStepIndex}
+          />
+          <Button
+            onClick={toggleShortcuts}
+            variant="ghost"
+            size="icon"
+            className="text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+            aria-label="Phím tắt"
+            title="Phím tắt (?)"
+          >
+            <KeyboardIcon className="w-5 h-5" />
+          </Button>
+          <Button
+            onClick={handleNewQuery}
+            variant="outline"
+            className="border-violet-500/30 text-violet-300 hover:bg-violet-500/10 px-5 py-2.5"
+          >
+            {/* <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg> */}
+            <RefreshCcwIcon className="w-5 h-5 mr-2" />
+            Query Mới
+          </Button>
+        </div>
       </div>
 
+      {/* Tabs: switching restores each tab's own visualization */}
+      {queryTabs.length > 1 && <QueryTabs />}
+
       {/* Data Flow Visualizer */}
       <DataFlowVisualizer
         visualization={visualization}
         currentStepIndex={currentStepIndex}
-        onStepClick={setCurrentStepIndex}
-        onPrev={prevStep}
-        onNext={nextStep}
+        onStepClick={handleStepClick}
+        onPrev={handlePrev}
+        onNext={handleNext}
         onReset={handleReset}
+        sourceTables={tableData}
+        tableSchemas={tables}
+        playback={{
+          isPlaying,
+          speed: playbackSpeed,
+          loop: playbackLoop,
+          onTogglePlay: togglePlayback,
+          onSpeedChange: setPlaybackSpeed,
+          onLoopChange: setPlaybackLoop,
+        }}
       />
+
+      {/* Shortcuts Cheat Sheet */}
+      <AnimatePresence>
+        {showShortcuts && <ShortcutsHelp onClose={closeShortcuts} />}
+      </AnimatePresence>
     </motion.div>
   );
 }
@@ -2,4 +2,5 @@ export { SetupView } from './SetupView';
 export { SchemaView } from './SchemaView';
 export { QueryView } from './QueryView';
 export { VisualizationView } from './VisualizationView';
+export { CompareView } from './CompareView';
 export { MonitoringView } from './MonitoringView';
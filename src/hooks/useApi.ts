@@ -3,8 +3,14 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api, initSession } from '@/api/client';
-import { useAppStore } from '@/store';
+import { api, initSession, setStoredSessionId, setStoredSetupScripts } from '@/api/client';
+import { useAppStore, type CompareSide } from '@/store';
+import { recordHistory } from '@/store/history';
+import { toSqlErrorInfo } from '@/lib/sqlErrors';
+import { hasSharedQuery } from '@/lib/permalink';
+import { downloadFile } from '@/lib/download';
+import { createSnapshot, rebuildScript, snapshotFileName, type SessionSnapshot } from '@/lib/sessionSnapshot';
+import { showToast } from '@/store/toast';
 import type { 
   GetTablesResponse, 
   VisualizeQueryResponse,
@@ -34,6 +40,28 @@ export const queryKeys = {
 // Session Hooks
 // ============================================
 
+/**
+ * Persisted state keeps only SQL text, so after a reload the tables are read
+ * back from the session. Tab visualizations are re-run separately, when their
+ * tab is first active (see useTabRestore).
+ */
+async function restoreSessionState(sessionId: string): Promise<void> {
+  const { setTables, setTableData, setERDiagram, setCurrentView } = useAppStore.getState();
+  try {
+    const tablesResponse = await api.getTables(sessionId);
+    // A setup script run while this was in flight already brought its own tables
+    if (useAppStore.getState().tables.length > 0) return;
+    setTables(tablesResponse.tables);
+    setTableData(tablesResponse.tableData);
+    setERDiagram(tablesResponse.erDiagram || null);
+  } catch (error) {
+    console.error('Lỗi khi làm mới bảng dữ liệu:', error);
+  }
+
+  const { currentView, tables } = useAppStore.getState();
+  if (tables.length === 0 && currentView !== 'setup') setCurrentView('setup');
+}
+
 export function useInitSession() {
   const { setSessionId, setSessionLoading, setSessionError } = useAppStore();
 
@@ -43,6 +71,9 @@ export function useInitSession() {
       setSessionId(sessionId);
       setSessionLoading(false);
       setSessionError(null);
+      // The app is usable right away; tables fill in once they are read back.
+      // A shared link starts from a fresh session and runs its own setup
+      if (!hasSharedQuery()) restoreSessionState(sessionId);
     },
     onError: (error) => {
       setSessionLoading(false);
@@ -75,6 +106,7 @@ export function useExecuteSQL() {
     setIsExecuting, 
     setExecutionError, 
     setExecutionMessage,
+    setSqlError,
     setTables,
     setTableData,
     setERDiagram,
@@ -84,18 +116,29 @@ export function useExecuteSQL() {
   return useMutation({
     mutationFn: async (sql: string) => {
       if (!sessionId) throw new Error('No session');
-      return api.executeMultipleSQL(sessionId, sql);
+      // Setup run against an empty session replaces whatever was recorded for replay
+      return api.executeMultipleSQL(sessionId, sql, { fromScratch: useAppStore.getState().tables.length === 0 });
     },
     onMutate: () => {
       setIsExecuting(true);
       setExecutionError(null);
       setExecutionMessage(null);
+      setSqlError(null);
     },
-    onSuccess: async (results) => {
+    onSuccess: async (results, sql) => {
       // Show success messages
       const messages = results.map((r) => r.message).join('\n');
       setExecutionMessage(messages);
 
+      const lastResultSet = results.filter((r) => r.data).pop();
+      recordHistory({
+        kind: 'setup',
+        sql,
+        success: true,
+        messages: results.map((r) => r.message),
+        rowCount: lastResultSet?.data ? lastResultSet.data.rows.length : null,
+      });
+
       // Refresh tables data
       if (sessionId) {
         try {
@@ -116,8 +159,11 @@ export function useExecuteSQL() {
         }
       }
     },
-    onError: (error) => {
-      setExecutionError(error instanceof Error ? error.message : 'Lỗi khi thực thi các query');
+    onError: (error, sql) => {
+      const message = error instanceof Error ? error.message : 'Lỗi khi thực thi các query';
+      setExecutionError(message);
+      setSqlError(toSqlErrorInfo(error, sql));
+      recordHistory({ kind: 'setup', sql, success: false, messages: [message], rowCount: null });
     },
     onSettled: () => {
       setIsExecuting(false);
@@ -134,6 +180,7 @@ export function useVisualizeQuery() {
     sessionId, 
     setIsExecuting, 
     setExecutionError,
+    setSqlError,
     setVisualization,
     setCurrentView
   } = useAppStore();
@@ -146,13 +193,194 @@ export function useVisualizeQuery() {
     onMutate: () => {
       setIsExecuting(true);
       setExecutionError(null);
+      setSqlError(null);
     },
-    onSuccess: (response: VisualizeQueryResponse) => {
+    onSuccess: (response: VisualizeQueryResponse, query) => {
       setVisualization(response.visualization);
       setCurrentView('visualization');
+      recordHistory({
+        kind: 'query',
+        sql: query,
+        success: true,
+        messages: [],
+        rowCount: response.visualization.finalResult.rows.length,
+      });
+    },
+    onError: (error, query) => {
+      const message = error instanceof Error ? error.message : 'Lỗi khi hiển thị luồng thực thi query';
+      setExecutionError(message);
+      setSqlError(toSqlErrorInfo(error, query));
+      recordHistory({ kind: 'query', sql: query, success: false, messages: [message], rowCount: null });
+    },
+    onSettled: () => {
+      setIsExecuting(false);
+    },
+  });
+}
+
+// ============================================
+// Query Comparison Hooks
+// ============================================
+
+/** Identifies which side of a comparison a failure came from */
+class CompareQueryError extends Error {
+  readonly side: CompareSide;
+  readonly sql: string;
+  readonly original: unknown;
+
+  constructor(side: CompareSide, sql: string, original: unknown) {
+    super(original instanceof Error ? original.message : String(original));
+    this.name = 'CompareQueryError';
+    this.side = side;
+    this.sql = sql;
+    this.original = original;
+  }
+}
+
+const COMPARE_SIDE_LABELS: Record<CompareSide, string> = { left: 'Query A', right: 'Query B' };
+
+export function useCompareQueries() {
+  const {
+    sessionId,
+    setIsExecuting,
+    setExecutionError,
+    setSqlError,
+    setComparison,
+  } = useAppStore();
+
+  return useMutation({
+    mutationFn: async (queries: Record<CompareSide, string>) => {
+      if (!sessionId) throw new Error('No session');
+      const visualize = (side: CompareSide) =>
+        api.visualizeQuery(sessionId, queries[side]).catch((error: unknown) => {
+          throw new CompareQueryError(side, queries[side], error);
+        });
+      const [left, right] = await Promise.all([visualize('left'), visualize('right')]);
+      return { left: left.visualization, right: right.visualization };
+    },
+    onMutate: () => {
+      setIsExecuting(true);
+      setExecutionError(null);
+      setSqlError(null);
+    },
+    onSuccess: (comparison) => {
+      setComparison(comparison);
+    },
+    onError: (error) => {
+      if (error instanceof CompareQueryError) {
+        setExecutionError(`${COMPARE_SIDE_LABELS[error.side]}: ${error.message}`);
+        setSqlError(toSqlErrorInfo(error.original, error.sql));
+      } else {
+        setExecutionError(error instanceof Error ? error.message : 'Lỗi khi so sánh các query');
+      }
+    },
+    onSettled: () => {
+      setIsExecuting(false);
+    },
+  });
+}
+
+// ============================================
+// Session Snapshot Hooks
+// ============================================
+
+/** Downloads the current tables (fresh from the server), queries and optionally the visualization */
+export function useExportSnapshot() {
+  const { sessionId } = useAppStore();
+
+  return useMutation({
+    mutationFn: async ({ includeVisualization }: { includeVisualization: boolean }) => {
+      if (!sessionId) throw new Error('No session');
+      const { tables, tableData } = await api.getTables(sessionId);
+      const state = useAppStore.getState();
+      const snapshot = createSnapshot({
+        setupSQL: state.setupSQL,
+        tables,
+        tableData,
+        queries: state.queryTabs.map((tab) => ({
+          name: tab.name,
+          sql: tab.id === state.activeTabId ? state.querySQL : tab.sql,
+        })),
+        activeQuery: state.queryTabs.findIndex((tab) => tab.id === state.activeTabId),
+        visualization: includeVisualization && state.visualization ? state.visualization : undefined,
+      });
+      downloadFile(snapshotFileName(), JSON.stringify(snapshot, null, 2), 'application/json');
+      return snapshot;
+    },
+    onError: (error) => {
+      showToast({
+        kind: 'error',
+        title: 'Không thể xuất phiên',
+        message: error instanceof Error ? error.message : undefined,
+      });
+    },
+  });
+}
+
+/** Starts a new session and rebuilds the snapshot's tables, queries and visualization in it */
+export function useImportSnapshot() {
+  const queryClient = useQueryClient();
+  const {
+    sessionId: previousSessionId,
+    setSessionId,
+    setSetupSQL,
+    setIsExecuting,
+    setExecutionError,
+    setExecutionMessage,
+    setSqlError,
+    setTables,
+    setTableData,
+    setERDiagram,
+    loadQueryTabs,
+    setCurrentView,
+  } = useAppStore();
+
+  return useMutation({
+    mutationFn: async (snapshot: SessionSnapshot) => {
+      // The current session stays in use until the new one is fully built
+      const { sessionId } = await api.createSession();
+      try {
+        // Recorded only once the session is switched to, so the current one keeps its record
+        await api.executeMultipleSQL(sessionId, rebuildScript(snapshot), { record: false });
+        const tables = await api.getTables(sessionId);
+        return { sessionId, tables };
+      } catch (error) {
+        api.deleteSession(sessionId).catch(() => {});
+        throw error;
+      }
+    },
+    onMutate: () => {
+      setIsExecuting(true);
+      setExecutionError(null);
+      setExecutionMessage(null);
+      setSqlError(null);
+    },
+    onSuccess: ({ sessionId, tables }, snapshot) => {
+      setStoredSessionId(sessionId);
+      setStoredSetupScripts(sessionId, [rebuildScript(snapshot)]);
+      setSessionId(sessionId);
+      setSetupSQL(snapshot.setupSQL);
+      setTables(tables.tables);
+      setTableData(tables.tableData);
+      setERDiagram(tables.erDiagram || null);
+      if (snapshot.queries.length > 0) {
+        loadQueryTabs(snapshot.queries, snapshot.activeQuery, snapshot.visualization);
+      }
+      setExecutionMessage(
+        `Đã nhập phiên: ${tables.tables.length} bảng, ${snapshot.queries.length} query`
+      );
+      setCurrentView(snapshot.visualization ? 'visualization' : tables.tables.length > 0 ? 'schema' : 'setup');
+      queryClient.invalidateQueries({ queryKey: queryKeys.tables(sessionId) });
+
+      // The old session is no longer used; it would expire on its own anyway
+      if (previousSessionId) {
+        api.deleteSession(previousSessionId).catch(() => {});
+      }
     },
     onError: (error) => {
-      setExecutionError(error instanceof Error ? error.message : 'Lỗi khi hiển thị luồng thực thi query');
+      setExecutionError(
+        `Không thể dựng lại phiên từ file: ${error instanceof Error ? error.message : 'Lỗi không xác định'}`
+      );
     },
     onSettled: () => {
       setIsExecuting(false);
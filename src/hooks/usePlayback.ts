@@ -0,0 +1,54 @@
+/**
+ * Autoplay timer for stepping through a visualization
+ */
+
+import { useEffect } from 'react';
+import { useAppStore, selectIsLastStep } from '@/store';
+
+// ============================================
+// Constants
+// ============================================
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 1.5, 2] as const;
+
+// Time spent on each step at 1x speed
+const BASE_STEP_INTERVAL_MS = 2500;
+
+// ============================================
+// Playback Hook
+// ============================================
+
+/**
+ * Advances `currentStepIndex` on a timer while `isPlaying` is set. Stops on
+ * the last step, or wraps around to the first one when looping.
+ */
+export function usePlayback() {
+  const isPlaying = useAppStore((state) => state.isPlaying);
+  const playbackSpeed = useAppStore((state) => state.playbackSpeed);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = window.setInterval(() => {
+      const state = useAppStore.getState();
+
+      if (selectIsLastStep(state)) {
+        if (state.playbackLoop) {
+          state.setCurrentStepIndex(0);
+        } else {
+          state.setIsPlaying(false);
+        }
+        return;
+      }
+
+      state.nextStep();
+
+      const next = useAppStore.getState();
+      if (selectIsLastStep(next) && !next.playbackLoop) {
+        next.setIsPlaying(false);
+      }
+    }, BASE_STEP_INTERVAL_MS / playbackSpeed);
+
+    return () => window.clearInterval(timer);
+  }, [isPlaying, playbackSpeed]);
+}
@@ -0,0 +1,70 @@
+/**
+ * Opens a `#share=...` permalink: runs its setup script in the fresh session,
+ * then visualizes its query and jumps to the shared step.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useAppStore } from '@/store';
+import { useExecuteSQL, useVisualizeQuery } from '@/hooks/useApi';
+import { clearSharedQueryHash, decodeSharedQuery, hasSharedQuery } from '@/lib/permalink';
+
+export type SharedQueryStatus =
+  | { kind: 'idle' }
+  | { kind: 'loading' }
+  | { kind: 'error'; message: string };
+
+export function useSharedQuery() {
+  const { sessionId, setSetupSQL, setQuerySQL, setCurrentView, setCurrentStepIndex } = useAppStore();
+  const executeSQL = useExecuteSQL();
+  const visualizeQuery = useVisualizeQuery();
+
+  // Read once: the hash is cleared as soon as the link has been picked up
+  const [hash] = useState(() => (hasSharedQuery() ? window.location.hash : null));
+  const [status, setStatus] = useState<SharedQueryStatus>(() => (hash ? { kind: 'loading' } : { kind: 'idle' }));
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (!hash || !sessionId || started.current) return;
+    started.current = true;
+    clearSharedQueryHash();
+
+    const open = async () => {
+      let shared;
+      try {
+        shared = await decodeSharedQuery(hash);
+      } catch (error) {
+        setStatus({ kind: 'error', message: error instanceof Error ? error.message : 'Link chia sẻ không hợp lệ' });
+        return;
+      }
+
+      setSetupSQL(shared.setupSQL);
+      setQuerySQL(shared.querySQL);
+
+      try {
+        await executeSQL.mutateAsync(shared.setupSQL);
+      } catch {
+        // The setup view already shows the SQL error
+        setStatus({ kind: 'error', message: 'Không chạy được phần thiết lập dữ liệu trong link chia sẻ' });
+        return;
+      }
+
+      try {
+        const { visualization } = await visualizeQuery.mutateAsync(shared.querySQL);
+        const lastStep = Math.max(visualization.dataFlow.length - 1, 0);
+        setCurrentStepIndex(Math.min(shared.step ?? 0, lastStep));
+      } catch {
+        setCurrentView('query');
+        setStatus({ kind: 'error', message: 'Không hiển thị được query trong link chia sẻ' });
+        return;
+      }
+
+      setStatus({ kind: 'idle' });
+    };
+
+    open();
+  }, [hash, sessionId, executeSQL, visualizeQuery, setSetupSQL, setQuerySQL, setCurrentView, setCurrentStepIndex]);
+
+  const dismiss = () => setStatus({ kind: 'idle' });
+
+  return { status, dismiss };
+}
@@ -0,0 +1,109 @@
+/**
+ * Global keyboard shortcuts for stepping through a visualization
+ */
+
+import { useEffect, useRef } from 'react';
+import { useAppStore } from '@/store';
+
+// ============================================
+// Shortcut Definitions
+// ============================================
+
+export interface ShortcutDescription {
+  keys: string[];
+  description: string;
+}
+
+export const STEP_SHORTCUTS: ShortcutDescription[] = [
+  { keys: ['←', 'K'], description: 'Bước trước' },
+  { keys: ['→', 'J'], description: 'Bước tiếp theo' },
+  { keys: ['Home'], description: 'Bước đầu tiên' },
+  { keys: ['End'], description: 'Bước cuối cùng' },
+  { keys: ['1', '…', '9'], description: 'Đến bước thứ N' },
+  { keys: ['Space'], description: 'Tự chạy / Tạm dừng' },
+  { keys: ['?'], description: 'Hiện / ẩn bảng phím tắt' },
+];
+
+// Keys typed into editors and form fields must never be taken over
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.closest('.monaco-editor')) return true;
+  if (target.isContentEditable) return true;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// ============================================
+// Shortcuts Hook
+// ============================================
+
+interface UseStepShortcutsOptions {
+  enabled: boolean;
+  onToggleHelp: () => void;
+}
+
+/**
+ * Listens on the window for step navigation keys while `enabled`. Manual
+ * navigation pauses autoplay, the same as clicking the controls.
+ */
+export function useStepShortcuts({ enabled, onToggleHelp }: UseStepShortcutsOptions) {
+  const onToggleHelpRef = useRef(onToggleHelp);
+
+  useEffect(() => {
+    onToggleHelpRef.current = onToggleHelp;
+  }, [onToggleHelp]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const state = useAppStore.getState();
+      const totalSteps = state.visualization?.dataFlow.length ?? 0;
+      if (totalSteps === 0) return;
+
+      const goTo = (index: number) => {
+        state.setIsPlaying(false);
+        state.setCurrentStepIndex(Math.min(Math.max(index, 0), totalSteps - 1));
+      };
+
+      switch (event.key) {
+        case 'ArrowLeft':
+        case 'k':
+        case 'K':
+          goTo(state.currentStepIndex - 1);
+          break;
+        case 'ArrowRight':
+        case 'j':
+        case 'J':
+          goTo(state.currentStepIndex + 1);
+          break;
+        case 'Home':
+          goTo(0);
+          break;
+        case 'End':
+          goTo(totalSteps - 1);
+          break;
+        case ' ':
+          state.togglePlayback();
+          break;
+        case '?':
+          onToggleHelpRef.current();
+          break;
+        default:
+          if (/^[1-9]$/.test(event.key) && Number(event.key) <= totalSteps) {
+            goTo(Number(event.key) - 1);
+            break;
+          }
+          return;
+      }
+
+      // Stop Space from scrolling or re-clicking the focused button
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,35 @@
+/**
+ * Re-runs query tabs restored from storage, one at a time as they are opened
+ */
+
+import { useEffect, useRef } from 'react';
+import { useAppStore } from '@/store';
+import { api } from '@/api/client';
+
+/**
+ * Once the session has tables, visualizes the active tab's SQL again if the
+ * tab came back from storage without its visualization, and puts it back on
+ * the step it was left on. Tabs that are never opened are never re-run.
+ */
+export function useTabRestore() {
+  const sessionId = useAppStore((state) => state.sessionId);
+  const activeTabId = useAppStore((state) => state.activeTabId);
+  const hasTables = useAppStore((state) => state.tables.length > 0);
+  const needsRerun = useAppStore((state) =>
+    state.queryTabs.some((tab) => tab.id === state.activeTabId && tab.needsRerun)
+  );
+  // Tabs with a re-run in flight, so re-renders do not start another one
+  const running = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!sessionId || !hasTables || !needsRerun || running.current.has(activeTabId)) return;
+    running.current.add(activeTabId);
+
+    const { querySQL, restoreTabVisualization } = useAppStore.getState();
+    api.visualizeQuery(sessionId, querySQL)
+      .then((response) => restoreTabVisualization(activeTabId, response.visualization))
+      // The editor still has the SQL; running it by hand shows the error
+      .catch(() => restoreTabVisualization(activeTabId, null))
+      .finally(() => running.current.delete(activeTabId));
+  }, [sessionId, activeTabId, hasTables, needsRerun]);
+}
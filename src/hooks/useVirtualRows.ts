@@ -0,0 +1,153 @@
+/**
+ * Windowed rendering for long tables: only the rows inside the scroll
+ * viewport (plus some overscan) are rendered, spacers stand in for the rest.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+// ============================================
+// Constants
+// ============================================
+
+// DataTable rows: py-4 cell padding, text-sm line height and the 1px row border
+const ESTIMATED_ROW_HEIGHT = 53;
+
+// Rows rendered above and below the viewport so fast scrolling shows no gaps
+const DEFAULT_OVERSCAN = 10;
+
+// Rendered rows carry their key here so the shared observer knows which row resized
+const ROW_KEY_ATTRIBUTE = 'data-virtual-row';
+
+// ============================================
+// Hook
+// ============================================
+
+interface VirtualRowsOptions {
+  /** One stable key per row, in display order */
+  rowKeys: readonly string[];
+  /** When false every row is rendered and no spacers are needed */
+  enabled: boolean;
+  /** Height assumed for rows before any has been measured */
+  estimatedRowHeight?: number;
+  overscan?: number;
+}
+
+export interface VirtualRows<T extends HTMLElement> {
+  /** Ref for the scrolling element */
+  scrollRef: (element: T | null) => void | (() => void);
+  /**
+   * Ref for every rendered row, which must also carry `rowProps(key)`. Rows
+   * are measured individually and re-measured when they resize, e.g. when a
+   * cell is expanded.
+   */
+  measureRow: (element: HTMLElement | null) => void | (() => void);
+  rowProps: (key: string) => Record<typeof ROW_KEY_ATTRIBUTE, string>;
+  /** Rendered rows are `[start, end)` */
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/** Index of the last offset that is <= `target` */
+function findOffsetIndex(offsets: number[], target: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= target) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+export function useVirtualRows<T extends HTMLElement>({
+  rowKeys,
+  enabled,
+  estimatedRowHeight = ESTIMATED_ROW_HEIGHT,
+  overscan = DEFAULT_OVERSCAN,
+}: VirtualRowsOptions): VirtualRows<T> {
+  const count = rowKeys.length;
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured heights by row key; rows not rendered yet use the average
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const rowObserver = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => () => rowObserver.current?.disconnect(), []);
+
+  const scrollRef = useCallback((element: T | null) => {
+    if (!element) return;
+
+    const handleScroll = () => setScrollTop(element.scrollTop);
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    resizeObserver.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    rowObserver.current ??= new ResizeObserver((entries) => {
+      setHeights((current) => {
+        let next: Map<string, number> | null = null;
+        for (const entry of entries) {
+          const key = entry.target.getAttribute(ROW_KEY_ATTRIBUTE);
+          const height = entry.target.getBoundingClientRect().height;
+          if (key === null || height <= 0 || Math.abs((current.get(key) ?? 0) - height) <= 0.5) continue;
+          next ??= new Map(current);
+          next.set(key, height);
+        }
+        return next ?? current;
+      });
+    });
+
+    const observer = rowObserver.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  const rowProps = useCallback((key: string) => ({ [ROW_KEY_ATTRIBUTE]: key }), []);
+
+  // offsets[i] is the top of row i; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    if (!enabled) return [];
+    const measured = [...heights.values()];
+    const estimate = measured.length > 0
+      ? measured.reduce((total, height) => total + height, 0) / measured.length
+      : estimatedRowHeight;
+
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    rowKeys.forEach((key, index) => {
+      result[index + 1] = result[index] + (heights.get(key) ?? estimate);
+    });
+    return result;
+  }, [enabled, rowKeys, count, heights, estimatedRowHeight]);
+
+  if (!enabled) {
+    return { scrollRef, measureRow, rowProps, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  // Before the first resize callback, assume a viewport of 20 estimated rows
+  const viewport = viewportHeight || estimatedRowHeight * 20;
+  const firstVisible = Math.min(findOffsetIndex(offsets, scrollTop), Math.max(0, count - 1));
+  const lastVisible = Math.min(findOffsetIndex(offsets, scrollTop + viewport), count - 1);
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(count, lastVisible + 1 + overscan);
+
+  return {
+    scrollRef,
+    measureRow,
+    rowProps,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Cell formatting - picks how a column's values are displayed, from the
+ * declared SQL type of the source column or, failing that, from the values
+ */
+
+import type { TableSchema } from '@/api/types';
+
+// ============================================
+// Types
+// ============================================
+
+export type CellKind = 'number' | 'date' | 'boolean' | 'json' | 'text';
+
+// Text longer than this is truncated until expanded
+export const LONG_TEXT_LENGTH = 80;
+
+// How many values are looked at to guess the kind of an untyped column
+const SNIFF_SAMPLE_SIZE = 50;
+
+// ============================================
+// Column Kinds
+// ============================================
+
+/** Kind for a declared SQL type, following SQLite's type affinity rules loosely */
+export function kindFromColumnType(type: string): CellKind | undefined {
+  const name = type.toUpperCase();
+  if (/BOOL/.test(name)) return 'boolean';
+  if (/JSON/.test(name)) return 'json';
+  if (/DATE|TIME/.test(name)) return 'date';
+  if (/INT|REAL|FLOA|DOUB|NUM|DEC/.test(name)) return 'number';
+  if (/CHAR|CLOB|TEXT/.test(name)) return 'text';
+  return undefined;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function looksLikeJson(text: string): boolean {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Kind of a single non-NULL value */
+export function sniffKind(value: unknown): CellKind {
+  if (typeof value === 'number' || typeof value === 'bigint') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'object') return 'json';
+  const text = String(value);
+  if (ISO_DATE.test(text) && !Number.isNaN(Date.parse(text))) return 'date';
+  if (looksLikeJson(text)) return 'json';
+  return 'text';
+}
+
+/**
+ * Kind for a whole column: the declared type when there is one, otherwise the
+ * kind shared by all sampled values (`text` when they disagree)
+ */
+export function columnKind(declaredType: string | undefined, values: unknown[]): CellKind {
+  const declared = declaredType ? kindFromColumnType(declaredType) : undefined;
+  if (declared) return declared;
+
+  const kinds = new Set(
+    values
+      .filter((value) => value !== null && value !== undefined)
+      .slice(0, SNIFF_SAMPLE_SIZE)
+      .map(sniffKind)
+  );
+  return kinds.size === 1 ? [...kinds][0] : 'text';
+}
+
+/**
+ * Declared types for result columns, looked up by name in the session's
+ * tables. `t.col` prefers table `t`; a bare name is typed only when every
+ * table that has it agrees. Computed columns get no type.
+ */
+export function columnTypesFor(
+  columns: string[],
+  schemas: TableSchema[],
+  preferredTable?: string
+): Record<string, string> {
+  const types: Record<string, string> = {};
+  for (const column of columns) {
+    const dot = column.lastIndexOf('.');
+    const qualifier = (dot > 0 ? column.slice(0, dot) : preferredTable)?.toLowerCase();
+    const name = (dot > 0 ? column.slice(dot + 1) : column).toLowerCase();
+
+    const candidates = schemas.flatMap((schema) =>
+      schema.columns
+        .filter((definition) => definition.name.toLowerCase() === name)
+        .map((definition) => ({ table: schema.name.toLowerCase(), type: definition.type }))
+    );
+    const preferred = candidates.find((candidate) => candidate.table === qualifier);
+    const distinctTypes = new Set(candidates.map((candidate) => candidate.type.toUpperCase()));
+
+    if (preferred) types[column] = preferred.type;
+    else if (distinctTypes.size === 1) types[column] = candidates[0].type;
+  }
+  return types;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/** Raw text a value is searched and filtered by; NULL matches the word "null" */
+export function searchText(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 6 });
+
+export function formatNumber(value: unknown): string | null {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? numberFormat.format(number) : null;
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' });
+const dateTimeFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'medium' });
+
+/** Dates without a time part are read as calendar days, not UTC midnight */
+export function formatDate(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value);
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text);
+  const date = dateOnly ? new Date(`${text}T00:00:00`) : new Date(typeof value === 'number' ? value : text.replace(' ', 'T'));
+  if (Number.isNaN(date.getTime())) return null;
+  return (dateOnly ? dateFormat : dateTimeFormat).format(date);
+}
+
+/** SQLite stores booleans as 0/1; text forms are accepted too */
+export function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || (typeof value === 'string' && /^(true|t|yes)$/i.test(value))) return true;
+  if (value === 0 || value === '0' || (typeof value === 'string' && /^(false|f|no)$/i.test(value))) return false;
+  return null;
+}
+
+/** Pretty-printed JSON, or null when the value is not JSON */
+export function formatJson(value: unknown): string | null {
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value, null, 2);
+  if (typeof value !== 'string' || !looksLikeJson(value)) return null;
+  return JSON.stringify(JSON.parse(value), null, 2);
+}
@@ -0,0 +1,116 @@
+/**
+ * Locates the source text of each execution step's clause in the query
+ */
+
+import type { ExecutionStep, ExecutionStepType } from '@/api/types';
+
+export interface ClauseSpan {
+  stepOrder: number;
+  type: ExecutionStepType;
+  start: number;
+  end: number;
+}
+
+const STEP_KEYWORDS: Record<ExecutionStepType, string> = {
+  FROM: '\\bFROM\\b',
+  JOIN: '\\b(?:(?:INNER|LEFT|RIGHT|FULL|CROSS)\\s+)?(?:OUTER\\s+)?JOIN\\b',
+  WHERE: '\\bWHERE\\b',
+  'GROUP BY': '\\bGROUP\\s+BY\\b',
+  HAVING: '\\bHAVING\\b',
+  SELECT: '\\bSELECT\\b',
+  DISTINCT: '\\bDISTINCT\\b',
+  'ORDER BY': '\\bORDER\\s+BY\\b',
+  LIMIT: '\\bLIMIT\\b',
+  OFFSET: '\\bOFFSET\\b',
+};
+
+// Any keyword that starts the next clause ends the current one
+const CLAUSE_BOUNDARY = new RegExp(
+  `${Object.entries(STEP_KEYWORDS)
+    .filter(([type]) => type !== 'DISTINCT')
+    .map(([, keyword]) => keyword)
+    .join('|')}|;`,
+  'gi'
+);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Blanks out comments so keywords inside them are never matched; offsets are kept
+function maskComments(query: string): string {
+  return query.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, (comment) => ' '.repeat(comment.length));
+}
+
+function trimEnd(query: string, start: number, end: number): number {
+  while (end > start && /\s/.test(query[end - 1])) end--;
+  return end;
+}
+
+function findByClauseText(
+  query: string,
+  type: ExecutionStepType,
+  clause: string,
+  from: number
+): [number, number] | null {
+  // A clause without its keyword ("u.age DESC") could match anywhere; leave it to the keyword search
+  if (!new RegExp(`^${STEP_KEYWORDS[type]}`, 'i').test(clause.trim())) return null;
+
+  const tokens = clause.trim().replace(/;$/, '').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const pattern = new RegExp(tokens.map(escapeRegExp).join('\\s+'), 'gi');
+  pattern.lastIndex = from;
+  const match = pattern.exec(query);
+  return match ? [match.index, match.index + match[0].length] : null;
+}
+
+function findByKeyword(query: string, type: ExecutionStepType, from: number): [number, number] | null {
+  const pattern = new RegExp(STEP_KEYWORDS[type], 'gi');
+  pattern.lastIndex = from;
+  const match = pattern.exec(query);
+  if (!match) return null;
+
+  const start = match.index;
+  if (type === 'DISTINCT') return [start, start + match[0].length];
+
+  CLAUSE_BOUNDARY.lastIndex = start + match[0].length;
+  const boundary = CLAUSE_BOUNDARY.exec(query);
+  const end = boundary ? boundary.index : query.length;
+  return [start, trimEnd(query, start, end)];
+}
+
+/**
+ * Finds where each step's clause appears in the query. The backend's clause
+ * text is tried first (whitespace- and case-insensitive); if it does not occur
+ * verbatim or lacks its keyword, the step's keyword is used, running to the next clause keyword.
+ * Steps of the same type (several JOINs) are matched left to right. Spans are
+ * returned sorted and never overlap; steps that cannot be placed are omitted.
+ */
+export function findClauseSpans(query: string, steps: ExecutionStep[]): ClauseSpan[] {
+  const searchable = maskComments(query);
+  const cursors = new Map<ExecutionStepType, number>();
+  const spans: ClauseSpan[] = [];
+
+  for (const step of steps) {
+    const from = cursors.get(step.type) ?? 0;
+    const range =
+      findByClauseText(searchable, step.type, step.clause, from) ??
+      findByKeyword(searchable, step.type, from);
+    if (!range) continue;
+
+    cursors.set(step.type, range[1]);
+    spans.push({ stepOrder: step.order, type: step.type, start: range[0], end: range[1] });
+  }
+
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // A span nested in another (DISTINCT inside SELECT) would split it; keep the outer one
+  const result: ClauseSpan[] = [];
+  for (const span of spans) {
+    const previous = result[result.length - 1];
+    if (previous && span.start < previous.end) continue;
+    result.push(span);
+  }
+  return result;
+}
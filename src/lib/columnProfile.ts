@@ -0,0 +1,123 @@
+/**
+ * Column profiling - per-column statistics computed from a table's rows
+ */
+
+import { formatNumber, type CellKind } from './cellFormat';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  kind: CellKind;
+  rowCount: number;
+  nullCount: number;
+  distinctCount: number;
+  /** Only for numeric columns */
+  numeric?: { min: number; max: number; mean: number };
+  /** Earliest and latest value, for date columns */
+  range?: { min: string; max: string };
+  topValues: ValueCount[];
+  /** Equal-width bins over [min, max], for numeric columns */
+  histogram?: HistogramBin[];
+}
+
+export const TOP_VALUES = 5;
+
+const HISTOGRAM_BINS = 10;
+
+// ============================================
+// Profiling
+// ============================================
+
+/** Keeps 1 and '1' apart, as SQL does */
+function valueKey(value: unknown): string {
+  return `${typeof value}:${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+function histogram(numbers: number[], min: number, max: number): HistogramBin[] {
+  // A single distinct value gets one bin holding everything
+  if (min === max) return [{ from: min, to: max, count: numbers.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    from: min + index * width,
+    to: index === HISTOGRAM_BINS - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const number of numbers) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((number - min) / width))].count++;
+  }
+  return bins;
+}
+
+export function profileColumn(column: string, kind: CellKind, values: unknown[]): ColumnProfile {
+  const present = values.filter((value) => value !== null && value !== undefined);
+
+  const counts = new Map<string, ValueCount>();
+  for (const value of present) {
+    const key = valueKey(value);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  }
+
+  const profile: ColumnProfile = {
+    column,
+    kind,
+    rowCount: values.length,
+    nullCount: values.length - present.length,
+    distinctCount: counts.size,
+    topValues: [...counts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_VALUES),
+  };
+
+  if (kind === 'number') {
+    const numbers = present.map(toNumber).filter((number): number is number => number !== null);
+    if (numbers.length > 0) {
+      const min = numbers.reduce((a, b) => Math.min(a, b));
+      const max = numbers.reduce((a, b) => Math.max(a, b));
+      const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+      profile.numeric = { min, max, mean };
+      profile.histogram = histogram(numbers, min, max);
+    }
+  }
+
+  if (kind === 'date' && present.length > 0) {
+    const sorted = present.map(String).sort();
+    profile.range = { min: sorted[0], max: sorted[sorted.length - 1] };
+  }
+
+  return profile;
+}
+
+export function profileColumns(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  kinds: Record<string, CellKind>
+): ColumnProfile[] {
+  return columns.map((column) => profileColumn(column, kinds[column] ?? 'text', rows.map((row) => row[column])));
+}
+
+/** Short label for a value in the top-N list */
+export function valueLabel(value: unknown): string {
+  if (value === '') return "''";
+  if (typeof value === 'number') return formatNumber(value) ?? String(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,139 @@
+/**
+ * Aligns two query visualizations step by step and diffs their rows
+ */
+
+import type { DataFlowStep, ExecutionStepType, QueryVisualization, RowData } from '@/api/types';
+import { EXECUTION_ORDER } from '@/api/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RowSetDiff {
+  columns: string[];
+  onlyLeft: RowData[];
+  onlyRight: RowData[];
+  commonCount: number;
+}
+
+export interface AlignedStep {
+  stepType: ExecutionStepType;
+  /** Which occurrence of this step type (several JOINs) */
+  occurrence: number;
+  left: DataFlowStep | null;
+  right: DataFlowStep | null;
+  diff: RowSetDiff | null;
+}
+
+export interface VisualizationComparison {
+  steps: AlignedStep[];
+  finalResult: RowSetDiff;
+}
+
+// ============================================
+// Row Diffing
+// ============================================
+
+function rowKey(row: RowData): string {
+  return JSON.stringify(Object.keys(row).sort().map((column) => [column, row[column]]));
+}
+
+/**
+ * Multiset difference of two row lists: a row present twice on one side and
+ * once on the other counts once as "only" on that side.
+ */
+export function diffRows(
+  leftRows: RowData[],
+  rightRows: RowData[],
+  leftColumns: string[],
+  rightColumns: string[]
+): RowSetDiff {
+  const remaining = new Map<string, number>();
+  for (const row of rightRows) {
+    const key = rowKey(row);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const onlyLeft: RowData[] = [];
+  let commonCount = 0;
+  for (const row of leftRows) {
+    const key = rowKey(row);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      commonCount += 1;
+    } else {
+      onlyLeft.push(row);
+    }
+  }
+
+  const onlyRight = rightRows.filter((row) => {
+    const key = rowKey(row);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return false;
+    remaining.set(key, count - 1);
+    return true;
+  });
+
+  const columns = [...leftColumns, ...rightColumns.filter((column) => !leftColumns.includes(column))];
+  return { columns, onlyLeft, onlyRight, commonCount };
+}
+
+function survivingRows(step: DataFlowStep): RowData[] {
+  return step.rows.filter((row) => row.included).map((row) => row.data);
+}
+
+// ============================================
+// Alignment
+// ============================================
+
+function stepsByType(dataFlow: DataFlowStep[]): Map<ExecutionStepType, DataFlowStep[]> {
+  const byType = new Map<ExecutionStepType, DataFlowStep[]>();
+  for (const step of dataFlow) {
+    byType.set(step.stepType, [...(byType.get(step.stepType) ?? []), step]);
+  }
+  return byType;
+}
+
+/**
+ * Pairs up the data-flow steps of two visualizations by step type, in logical
+ * execution order. A step only one query has is paired with null. Each pair
+ * carries the difference between the rows that made it through on each side.
+ */
+export function compareVisualizations(
+  left: QueryVisualization,
+  right: QueryVisualization
+): VisualizationComparison {
+  const leftSteps = stepsByType(left.dataFlow);
+  const rightSteps = stepsByType(right.dataFlow);
+  const steps: AlignedStep[] = [];
+
+  for (const stepType of EXECUTION_ORDER) {
+    const leftOfType = leftSteps.get(stepType) ?? [];
+    const rightOfType = rightSteps.get(stepType) ?? [];
+
+    for (let occurrence = 0; occurrence < Math.max(leftOfType.length, rightOfType.length); occurrence++) {
+      const leftStep = leftOfType[occurrence] ?? null;
+      const rightStep = rightOfType[occurrence] ?? null;
+      steps.push({
+        stepType,
+        occurrence,
+        left: leftStep,
+        right: rightStep,
+        diff: leftStep && rightStep
+          ? diffRows(survivingRows(leftStep), survivingRows(rightStep), leftStep.columns, rightStep.columns)
+          : null,
+      });
+    }
+  }
+
+  return {
+    steps,
+    finalResult: diffRows(
+      left.finalResult.rows,
+      right.finalResult.rows,
+      left.finalResult.columns,
+      right.finalResult.columns
+    ),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Excluded rows - the rows a step filtered out, grouped by why
+ */
+
+import type { RowState } from '@/api/types';
+
+export const UNKNOWN_REASON = 'Không rõ lý do';
+
+export interface ExcludedGroup {
+  reason: string;
+  rows: RowState[];
+}
+
+/** Excluded rows grouped by `excludedReason`, largest group first */
+export function groupExcludedRows(rows: RowState[]): ExcludedGroup[] {
+  const groups = new Map<string, RowState[]>();
+  for (const row of rows) {
+    if (row.included) continue;
+    const reason = row.excludedReason?.trim() || UNKNOWN_REASON;
+    const group = groups.get(reason);
+    if (group) group.push(row);
+    else groups.set(reason, [row]);
+  }
+  return [...groups.entries()]
+    .map(([reason, groupRows]) => ({ reason, rows: groupRows }))
+    .sort((a, b) => b.rows.length - a.rows.length);
+}
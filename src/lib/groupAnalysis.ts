@@ -0,0 +1,235 @@
+/**
+ * GROUP BY analysis - groups, their member rows and how aggregates were computed
+ */
+
+import type { DataFlowStep, RowData } from '@/api/types';
+import { compareSqlValues, type SqlValue } from './sqlEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  /** Column reference or `*` */
+  argument: string;
+  distinct: boolean;
+  /** Text as written in the query, e.g. `COUNT(DISTINCT u.id)` */
+  label: string;
+}
+
+export interface AggregateResult {
+  spec: AggregateSpec;
+  /** MIN/MAX keep the type of their column; the others are numbers */
+  value: SqlValue;
+  /** Human-readable working, e.g. `30 + 25 = 55` */
+  formula: string;
+}
+
+export interface RowGroup {
+  /** Grouping column → value shared by every member */
+  key: RowData;
+  members: RowData[];
+  aggregates: AggregateResult[];
+  /** Set once HAVING has run: whether the whole group was kept */
+  kept?: boolean;
+  excludedReason?: string;
+}
+
+export interface GroupAnalysis {
+  groupColumns: string[];
+  memberColumns: string[];
+  groups: RowGroup[];
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const AGGREGATE_PATTERN = /\b(COUNT|SUM|AVG|MIN|MAX)\s*\(\s*(DISTINCT\s+)?([^()]*?)\s*\)/gi;
+const COLUMN_REF_PATTERN = /^(?:[A-Za-z_][\w]*\.)?[A-Za-z_][\w]*$/;
+
+/** Grouping expressions from a `GROUP BY a, b` clause */
+export function parseGroupColumns(clause: string): string[] {
+  const body = clause.replace(/^\s*GROUP\s+BY\s+/i, '').replace(/;\s*$/, '');
+  return body.split(',').map((part) => part.trim()).filter(Boolean);
+}
+
+/** Every distinct aggregate call found in the given clauses (SELECT, HAVING...) */
+export function parseAggregates(...clauses: string[]): AggregateSpec[] {
+  const specs = new Map<string, AggregateSpec>();
+
+  for (const clause of clauses) {
+    for (const match of clause.matchAll(AGGREGATE_PATTERN)) {
+      const fn = match[1].toUpperCase() as AggregateFunction;
+      const distinct = !!match[2];
+      const argument = match[3];
+      const label = `${fn}(${distinct ? 'DISTINCT ' : ''}${argument})`;
+      if (!specs.has(label.toLowerCase())) {
+        specs.set(label.toLowerCase(), { fn, argument, distinct, label });
+      }
+    }
+  }
+  return [...specs.values()];
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function unqualified(column: string): string {
+  return column.slice(column.lastIndexOf('.') + 1).toLowerCase();
+}
+
+/** Finds the row key a (possibly qualified) column reference points at */
+export function resolveColumn(columns: string[], reference: string): string | undefined {
+  const lower = reference.toLowerCase();
+  return (
+    columns.find((column) => column.toLowerCase() === lower) ??
+    columns.find((column) => unqualified(column) === unqualified(reference))
+  );
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+}
+
+/** Non-null row values the engine can order; anything else has no place in MIN/MAX */
+function isSqlValue(value: unknown): value is NonNullable<SqlValue> {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function formatValue(value: SqlValue): string {
+  return typeof value === 'number' ? formatNumber(value) : `'${value}'`;
+}
+
+function evaluateAggregate(
+  spec: AggregateSpec,
+  members: RowData[],
+  columns: string[]
+): AggregateResult | null {
+  if (spec.fn === 'COUNT' && spec.argument === '*') {
+    return { spec, value: members.length, formula: `${members.length} dòng` };
+  }
+  if (!COLUMN_REF_PATTERN.test(spec.argument)) return null;
+
+  const column = resolveColumn(columns, spec.argument);
+  if (!column) return null;
+
+  const allValues = members.map((member) => member[column]);
+  const nonNull = allValues.filter((value) => value !== null && value !== undefined);
+  const skipped = allValues.length - nonNull.length;
+  const values = spec.distinct
+    ? nonNull.filter((value, index) => nonNull.findIndex((v) => v === value) === index)
+    : nonNull;
+  const nullNote = skipped > 0 ? ` (bỏ qua ${skipped} NULL)` : '';
+
+  if (spec.fn === 'COUNT') {
+    return { spec, value: values.length, formula: `${values.length} giá trị${nullNote}` };
+  }
+
+  // MIN/MAX order values the way the engine does, so text and dates work too
+  if (spec.fn === 'MIN' || spec.fn === 'MAX') {
+    const candidates = values.filter(isSqlValue);
+    if (candidates.length === 0) {
+      return { spec, value: null, formula: `NULL${nullNote}` };
+    }
+    const result = candidates.reduce((best, value) => {
+      const order = compareSqlValues(value, best);
+      return (spec.fn === 'MIN' ? order < 0 : order > 0) ? value : best;
+    });
+    return {
+      spec,
+      value: result,
+      formula: `${spec.fn}(${candidates.map(formatValue).join(', ')}) = ${formatValue(result)}${nullNote}`,
+    };
+  }
+
+  const numbers = values.map(Number).filter((value) => !Number.isNaN(value));
+  if (numbers.length === 0) {
+    return { spec, value: null, formula: `NULL${nullNote}` };
+  }
+  const list = numbers.map(formatNumber);
+
+  switch (spec.fn) {
+    case 'SUM': {
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return { spec, value: sum, formula: `${list.join(' + ')} = ${formatNumber(sum)}${nullNote}` };
+    }
+    case 'AVG': {
+      const avg = numbers.reduce((total, value) => total + value, 0) / numbers.length;
+      return {
+        spec,
+        value: avg,
+        formula: `(${list.join(' + ')}) / ${numbers.length} = ${formatNumber(avg)}${nullNote}`,
+      };
+    }
+  }
+}
+
+// ============================================
+// Grouping
+// ============================================
+
+interface AnalyzeGroupsOptions {
+  groupClause: string;
+  /** Clauses to collect aggregate calls from (SELECT, HAVING) */
+  aggregateClauses: string[];
+  /** The step feeding GROUP BY; its surviving rows are the group members */
+  inputStep: DataFlowStep;
+  /** When given, marks each group kept or discarded from this step's rows */
+  havingStep?: DataFlowStep;
+}
+
+/**
+ * Rebuilds the groups formed by GROUP BY from the rows that entered it, and
+ * recomputes each aggregate so its working can be shown. Returns null when a
+ * grouping column cannot be found in the input rows.
+ */
+export function analyzeGroups({
+  groupClause,
+  aggregateClauses,
+  inputStep,
+  havingStep,
+}: AnalyzeGroupsOptions): GroupAnalysis | null {
+  const memberColumns = inputStep.columns;
+  const groupColumns = parseGroupColumns(groupClause).map((ref) => resolveColumn(memberColumns, ref));
+  if (groupColumns.length === 0 || groupColumns.some((column) => !column)) return null;
+  const keyColumns = groupColumns as string[];
+
+  const buckets = new Map<string, RowData[]>();
+  for (const row of inputStep.rows) {
+    if (!row.included) continue;
+    const bucketKey = JSON.stringify(keyColumns.map((column) => row.data[column] ?? null));
+    buckets.set(bucketKey, [...(buckets.get(bucketKey) ?? []), row.data]);
+  }
+
+  const specs = parseAggregates(...aggregateClauses);
+
+  const groups = [...buckets.values()].map((members): RowGroup => {
+    const key = Object.fromEntries(keyColumns.map((column) => [column, members[0][column] ?? null]));
+    const aggregates = specs
+      .map((spec) => evaluateAggregate(spec, members, memberColumns))
+      .filter((result): result is AggregateResult => result !== null);
+    const group: RowGroup = { key, members, aggregates };
+
+    if (havingStep) {
+      const havingRow = havingStep.rows.find((row) =>
+        keyColumns.every((column) => {
+          const havingColumn = resolveColumn(havingStep.columns, column);
+          return havingColumn !== undefined &&
+            JSON.stringify(row.data[havingColumn] ?? null) === JSON.stringify(key[column]);
+        })
+      );
+      if (havingRow) {
+        group.kept = havingRow.included;
+        group.excludedReason = havingRow.excludedReason;
+      }
+    }
+    return group;
+  });
+
+  return { groupColumns: keyColumns, memberColumns, groups };
+}
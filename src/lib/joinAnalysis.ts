@@ -0,0 +1,178 @@
+/**
+ * JOIN analysis - which left and right source rows were paired by a JOIN step
+ */
+
+import type { DataFlowStep, RowData, TableData } from '@/api/types';
+
+// ============================================
+// Types
+// ============================================
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+export interface JoinClause {
+  joinType: JoinType;
+  table: string;
+  alias: string;
+  condition?: string;
+}
+
+/** One row of the join output; a null side is padded with NULLs */
+export interface JoinOutputRow {
+  left: number | null;
+  right: number | null;
+}
+
+export interface JoinAnalysis {
+  clause: JoinClause;
+  leftColumns: string[];
+  leftRows: RowData[];
+  rightColumns: string[];
+  rightRows: RowData[];
+  output: JoinOutputRow[];
+  unmatchedLeft: number[];
+  unmatchedRight: number[];
+}
+
+// ============================================
+// Clause Parsing
+// ============================================
+
+const JOIN_CLAUSE_PATTERN =
+  /^\s*(?:(INNER|LEFT|RIGHT|FULL|CROSS)\s+)?(?:OUTER\s+)?JOIN\s+([A-Za-z_][\w]*)(?:\s+(?:AS\s+)?(?!ON\b)([A-Za-z_][\w]*))?(?:\s+ON\s+([\s\S]+?))?\s*;?\s*$/i;
+
+export function parseJoinClause(clause: string): JoinClause | null {
+  const match = JOIN_CLAUSE_PATTERN.exec(clause);
+  if (!match) return null;
+
+  return {
+    joinType: (match[1]?.toUpperCase() as JoinType | undefined) ?? 'INNER',
+    table: match[2],
+    alias: match[3] ?? match[2],
+    condition: match[4],
+  };
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function unqualified(column: string): string {
+  return column.slice(column.lastIndexOf('.') + 1);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Resolves which output column holds each right-table column, preferring
+ * `alias.col`/`table.col`, then a bare `col` the left side does not also have.
+ */
+function rightColumnMap(
+  outputColumns: string[],
+  clause: JoinClause,
+  rightColumns: string[],
+  leftColumns: string[]
+): Map<string, string> {
+  const map = new Map<string, string>();
+  const leftNames = new Set(leftColumns.map(unqualified));
+
+  for (const column of rightColumns) {
+    const qualified = outputColumns.find((out) =>
+      [`${clause.alias}.${column}`, `${clause.table}.${column}`]
+        .some((name) => name.toLowerCase() === out.toLowerCase())
+    );
+    if (qualified) {
+      map.set(column, qualified);
+    } else if (!leftNames.has(column) && outputColumns.includes(column)) {
+      map.set(column, column);
+    }
+  }
+  return map;
+}
+
+// Left columns are whatever is left over once right columns are accounted for
+function leftColumnMap(
+  outputColumns: string[],
+  leftColumns: string[],
+  rightOutputColumns: Set<string>
+): Map<string, string> {
+  const map = new Map<string, string>();
+  const available = outputColumns.filter((out) => !rightOutputColumns.has(out));
+
+  for (const column of leftColumns) {
+    const match =
+      available.find((out) => out === column) ??
+      available.find((out) => unqualified(out) === unqualified(column));
+    if (match) map.set(column, match);
+  }
+  return map;
+}
+
+function findSource(
+  row: RowData,
+  sources: RowData[],
+  columns: Map<string, string>
+): number | null {
+  const entries = [...columns.entries()];
+  if (entries.length === 0) return null;
+  // A side padded entirely with NULLs did not match anything
+  if (entries.every(([, out]) => row[out] === null || row[out] === undefined)) return null;
+
+  const index = sources.findIndex((source) =>
+    entries.every(([column, out]) => sameValue(source[column], row[out]))
+  );
+  return index === -1 ? null : index;
+}
+
+/**
+ * Works out the pairs behind a JOIN step by matching each output row back to
+ * the left input (the previous step's surviving rows) and the right table.
+ * Returns null when the clause or the output columns cannot be understood.
+ */
+export function analyzeJoin(
+  clauseText: string,
+  joinStep: DataFlowStep,
+  previousStep: DataFlowStep,
+  rightTable: TableData
+): JoinAnalysis | null {
+  const clause = parseJoinClause(clauseText);
+  if (!clause) return null;
+
+  const leftRows = previousStep.rows.filter((row) => row.included).map((row) => row.data);
+  const leftColumns = previousStep.columns;
+  const rightRows = rightTable.rows;
+  const rightColumns = rightTable.columns;
+
+  const rightMap = rightColumnMap(joinStep.columns, clause, rightColumns, leftColumns);
+  const leftMap = leftColumnMap(joinStep.columns, leftColumns, new Set(rightMap.values()));
+  if (rightMap.size === 0 || leftMap.size === 0) return null;
+
+  const output: JoinOutputRow[] = joinStep.rows
+    .filter((row) => row.included)
+    .map((row) => ({
+      left: findSource(row.data, leftRows, leftMap),
+      right: findSource(row.data, rightRows, rightMap),
+    }));
+
+  const matchedLeft = new Set(output.filter((o) => o.right !== null).map((o) => o.left));
+  const matchedRight = new Set(output.filter((o) => o.left !== null).map((o) => o.right));
+
+  return {
+    clause,
+    leftColumns,
+    leftRows,
+    rightColumns,
+    rightRows,
+    output,
+    unmatchedLeft: leftRows.map((_, index) => index).filter((index) => !matchedLeft.has(index)),
+    unmatchedRight: rightRows.map((_, index) => index).filter((index) => !matchedRight.has(index)),
+  };
+}
+
+/** Whether unmatched rows on a side survive the join (padded with NULLs) */
+export function keepsUnmatched(joinType: JoinType, side: 'left' | 'right'): boolean {
+  if (joinType === 'FULL') return true;
+  return side === 'left' ? joinType === 'LEFT' : joinType === 'RIGHT';
+}
@@ -0,0 +1,158 @@
+/**
+ * Permalinks - setup SQL and query compressed into the URL hash
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface SharedQuery {
+  setupSQL: string;
+  querySQL: string;
+  /** Data-flow step to open on, 0-based */
+  step?: number;
+}
+
+export type PermalinkErrorReason = 'too-large' | 'corrupt' | 'unsupported';
+
+export class PermalinkError extends Error {
+  readonly reason: PermalinkErrorReason;
+
+  constructor(reason: PermalinkErrorReason, message: string) {
+    super(message);
+    this.name = 'PermalinkError';
+    this.reason = reason;
+  }
+}
+
+// ============================================
+// Limits
+// ============================================
+
+const HASH_PREFIX = '#share=';
+const FORMAT_VERSION = 'v1';
+
+/** Longest hash we produce or accept; some browsers and chat apps cut longer URLs */
+export const MAX_PERMALINK_LENGTH = 8000;
+
+// Guards against links that inflate to something huge
+const MAX_DECODED_BYTES = 512 * 1024;
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new PermalinkError('too-large', 'Nội dung trong link quá lớn để mở');
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream, limit: number) {
+  const source = new Blob([bytes as BlobPart]).stream();
+  return readAll(source.pipeThrough(stream), limit);
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export function hasSharedQuery(hash: string = window.location.hash): boolean {
+  return hash.startsWith(HASH_PREFIX);
+}
+
+/** Builds the `#share=...` hash for a query; throws when it would be too long */
+export async function encodeSharedQuery(shared: SharedQuery): Promise<string> {
+  const payload: SharedQuery = { setupSQL: shared.setupSQL, querySQL: shared.querySQL };
+  if (shared.step !== undefined && shared.step > 0) payload.step = shared.step;
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'), Infinity);
+  const hash = `${HASH_PREFIX}${FORMAT_VERSION}.${toBase64Url(compressed)}`;
+
+  if (hash.length > MAX_PERMALINK_LENGTH) {
+    throw new PermalinkError(
+      'too-large',
+      `Link quá dài (${hash.length.toLocaleString()} / ${MAX_PERMALINK_LENGTH.toLocaleString()} ký tự). Hãy rút gọn dữ liệu mẫu trước khi chia sẻ.`
+    );
+  }
+  return hash;
+}
+
+export function buildShareUrl(hash: string): string {
+  return `${window.location.origin}/${hash}`;
+}
+
+/** Reads a `#share=...` hash back; throws a PermalinkError for anything unusable */
+export async function decodeSharedQuery(hash: string): Promise<SharedQuery> {
+  if (hash.length > MAX_PERMALINK_LENGTH) {
+    throw new PermalinkError('too-large', 'Link chia sẻ quá dài nên không thể mở');
+  }
+
+  const body = hash.slice(HASH_PREFIX.length);
+  const separator = body.indexOf('.');
+  const version = body.slice(0, separator);
+  if (separator === -1 || version !== FORMAT_VERSION) {
+    throw new PermalinkError('unsupported', 'Link chia sẻ được tạo bởi phiên bản khác và không thể mở');
+  }
+
+  let parsed: unknown;
+  try {
+    const compressed = fromBase64Url(body.slice(separator + 1));
+    const json = await transform(compressed, new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch (error) {
+    if (error instanceof PermalinkError) throw error;
+    throw new PermalinkError('corrupt', 'Link chia sẻ bị hỏng hoặc bị cắt mất một phần');
+  }
+
+  const candidate = parsed as Partial<SharedQuery> | null;
+  if (
+    typeof candidate !== 'object' || candidate === null ||
+    typeof candidate.setupSQL !== 'string' ||
+    typeof candidate.querySQL !== 'string' ||
+    (candidate.step !== undefined && (!Number.isInteger(candidate.step) || candidate.step < 0))
+  ) {
+    throw new PermalinkError('corrupt', 'Link chia sẻ không chứa dữ liệu hợp lệ');
+  }
+
+  return { setupSQL: candidate.setupSQL, querySQL: candidate.querySQL, step: candidate.step };
+}
+
+/** Drops the share hash so a reload does not replay the link */
+export function clearSharedQueryHash(): void {
+  if (hasSharedQuery()) {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Predicate evaluation - the WHERE/HAVING trace of a row, taken from the
+ * response when the backend sent one, otherwise recomputed in the browser
+ * from the clause text and the row's values
+ */
+
+import type { PredicateTrace, RowState } from '@/api/types';
+import type { Expression, SqlValue } from './sqlEngine/ast';
+import { isAggregateCall, type Scope } from './sqlEngine/evaluate';
+import { parseExpression } from './sqlEngine/parser';
+import { tracePredicate } from './sqlEngine/trace';
+
+export interface RowEvaluation {
+  trace: PredicateTrace;
+  /** Whether the trace was recomputed client-side */
+  computedLocally: boolean;
+}
+
+/** The condition of a `WHERE ...`/`HAVING ...` clause */
+export function conditionText(clause: string): string {
+  return clause.trim().replace(/^(WHERE|HAVING)\s+/i, '');
+}
+
+const normalize = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Looks a column up in a step row. Keys are bare after a single table, even
+ * when the query qualifies them (`u.age`), and `alias.column` after a join;
+ * aggregates are keyed by their text.
+ */
+function rowScope(data: Record<string, unknown>): Scope {
+  const keys = Object.keys(data);
+  const lookup = (key: string | undefined): SqlValue => (key === undefined ? null : (data[key] ?? null) as SqlValue);
+  const find = (wanted: string) => keys.find((key) => normalize(key) === normalize(wanted));
+
+  return {
+    column: (table, name) => {
+      const exact = find(table ? `${table}.${name}` : name);
+      if (exact !== undefined) return lookup(exact);
+
+      const bare = table ? find(name) : undefined;
+      if (bare !== undefined) return lookup(bare);
+
+      const suffixed = keys.filter((key) => normalize(key).endsWith(`.${normalize(name)}`));
+      if (!table && suffixed.length === 1) return lookup(suffixed[0]);
+      if (suffixed.length > 1) throw new Error(`Cột ${name} không rõ thuộc bảng nào`);
+      throw new Error(`Không tìm thấy cột ${table ? `${table}.` : ''}${name} trong dòng`);
+    },
+  };
+}
+
+/**
+ * HAVING rows hold aggregate results, not member rows, so each aggregate call
+ * is read back from the row as a column named by its text
+ */
+function aggregatesAsColumns(expression: Expression, source: string): Expression {
+  const walk = (node: Expression): Expression => {
+    if (isAggregateCall(node)) {
+      return { kind: 'column', name: source.slice(node.start, node.end), start: node.start, end: node.end };
+    }
+    switch (node.kind) {
+      case 'unary':
+      case 'isNull':
+        return { ...node, operand: walk(node.operand) };
+      case 'binary':
+        return { ...node, left: walk(node.left), right: walk(node.right) };
+      case 'in':
+        return { ...node, operand: walk(node.operand), values: node.values.map(walk) };
+      case 'between':
+        return { ...node, operand: walk(node.operand), low: walk(node.low), high: walk(node.high) };
+      case 'like':
+        return { ...node, operand: walk(node.operand), pattern: walk(node.pattern) };
+      case 'function':
+        return { ...node, args: node.args.map(walk) };
+      case 'case':
+        return {
+          ...node,
+          operand: node.operand && walk(node.operand),
+          branches: node.branches.map((branch) => ({ when: walk(branch.when), then: walk(branch.then) })),
+          otherwise: node.otherwise && walk(node.otherwise),
+        };
+      default:
+        return node;
+    }
+  };
+  return walk(expression);
+}
+
+/**
+ * Evaluation of `clause` for `row`. Throws when the condition cannot be
+ * parsed or refers to values the row does not carry.
+ */
+export function evaluateRow(clause: string, row: RowState): RowEvaluation {
+  if (row.evaluation) {
+    return { trace: row.evaluation, computedLocally: false };
+  }
+  const condition = conditionText(clause);
+  const expression = aggregatesAsColumns(parseExpression(condition), condition);
+  return { trace: tracePredicate(expression, rowScope(row.data), condition), computedLocally: true };
+}
@@ -0,0 +1,207 @@
+/**
+ * Row lineage - stable row identities carried across data-flow steps
+ */
+
+import type { DataFlowStep, RowState } from '@/api/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RowLineage {
+  /** Data flow with `rowId`/`sourceRowIds` filled in on every row */
+  dataFlow: DataFlowStep[];
+  /** Row id → ids of the rows it was derived from in the previous step */
+  parents: Map<string, string[]>;
+  /** Row id → ids of the rows derived from it in the next step */
+  children: Map<string, string[]>;
+}
+
+export type RowTraceStatus = 'included' | 'excluded' | 'absent';
+
+export interface RowTraceEntry {
+  stepIndex: number;
+  status: RowTraceStatus;
+  excludedReason?: string;
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function valueKey(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function agreesOn(row: RowState, candidate: RowState, pairs: [string, string][]): boolean {
+  return pairs.every(
+    ([column, candidateColumn]) =>
+      valueKey(row.data[column]) === valueKey(candidate.data[candidateColumn])
+  );
+}
+
+function unqualified(column: string): string {
+  return column.slice(column.lastIndexOf('.') + 1);
+}
+
+/**
+ * Pairs each column of the current step with the previous step's column
+ * holding the same value, treating `u.name` and `name` as the same column.
+ * Each previous column is used once, so `d.name` is not also tied to `name`.
+ */
+function sharedColumns(previous: string[], current: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  const used = new Set<string>();
+
+  for (const column of current) {
+    const match =
+      previous.find((p) => p === column && !used.has(p)) ??
+      previous.find((p) => unqualified(p) === unqualified(column) && !used.has(p));
+    if (match) {
+      used.add(match);
+      pairs.push([column, match]);
+    }
+  }
+  return pairs;
+}
+
+// Steps where one earlier row can feed several rows, or several rows one
+type MatchMode = 'one-to-one' | 'fan-out' | 'fan-in';
+
+function matchModeFor(step: DataFlowStep): MatchMode {
+  if (step.stepType === 'JOIN') return 'fan-out';
+  if (step.stepType === 'GROUP BY') return 'fan-in';
+  return 'one-to-one';
+}
+
+/**
+ * Finds, for each row of `current`, the rows of `previous` it was derived
+ * from. Rows are matched on the columns both steps share; only rows that made
+ * it through the previous step are candidates unless nothing else matches.
+ * With no shared columns, rows are paired up in order.
+ */
+function matchRows(previous: DataFlowStep, current: DataFlowStep): number[][] {
+  const shared = sharedColumns(previous.columns, current.columns);
+  const mode = matchModeFor(current);
+  const survivors = previous.rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.included);
+  const everyRow = previous.rows.map((row, index) => ({ row, index }));
+  const consumed = new Set<number>();
+
+  return current.rows.map((row, rowIndex) => {
+    if (shared.length === 0) {
+      const candidate = mode === 'one-to-one' ? survivors[rowIndex] : undefined;
+      return candidate ? [candidate.index] : [];
+    }
+
+    const matches = (pool: typeof everyRow) =>
+      pool.filter(
+        ({ row: candidate, index }) =>
+          (mode !== 'one-to-one' || !consumed.has(index)) && agreesOn(row, candidate, shared)
+      );
+    let candidates = matches(survivors);
+    if (candidates.length === 0) candidates = matches(everyRow);
+    if (candidates.length === 0) return [];
+
+    if (mode === 'fan-in') return candidates.map(({ index }) => index);
+
+    consumed.add(candidates[0].index);
+    return [candidates[0].index];
+  });
+}
+
+// ============================================
+// Lineage
+// ============================================
+
+/**
+ * Gives every row in the data flow an id that identifies the same logical
+ * row across steps. Ids sent by the backend are kept; otherwise a row that
+ * passes through a step unchanged keeps its id, a JOIN row gets a child id
+ * of its source row, and a GROUP BY row gets a new id linked to every member.
+ */
+export function buildRowLineage(dataFlow: DataFlowStep[]): RowLineage {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  const steps: DataFlowStep[] = [];
+
+  const link = (id: string, sourceIds: string[]) => {
+    if (sourceIds.length === 0 || parents.has(id)) return;
+    parents.set(id, sourceIds);
+    for (const sourceId of sourceIds) {
+      children.set(sourceId, [...(children.get(sourceId) ?? []), id]);
+    }
+  };
+
+  dataFlow.forEach((step, stepIndex) => {
+    const previous = steps[stepIndex - 1];
+    const matches = previous ? matchRows(dataFlow[stepIndex - 1], step) : [];
+    const mode = matchModeFor(step);
+    const fanOutCounts = new Map<string, number>();
+    const usedIds = new Set<string>();
+
+    const rows = step.rows.map((row, rowIndex) => {
+      const sourceIds = row.sourceRowIds ??
+        (matches[rowIndex] ?? []).flatMap((index) => previous.rows[index].rowId ?? []);
+
+      let rowId = row.rowId;
+      if (!rowId) {
+        if (mode === 'one-to-one' && sourceIds.length === 1 && !usedIds.has(sourceIds[0])) {
+          rowId = sourceIds[0];
+        } else if (mode === 'fan-out' && sourceIds.length === 1) {
+          const count = (fanOutCounts.get(sourceIds[0]) ?? 0) + 1;
+          fanOutCounts.set(sourceIds[0], count);
+          rowId = `${sourceIds[0]}.${count}`;
+        } else {
+          rowId = `s${stepIndex}r${rowIndex}`;
+        }
+      }
+      usedIds.add(rowId);
+
+      if (rowId !== sourceIds[0] || sourceIds.length > 1) {
+        link(rowId, sourceIds);
+      }
+      return { ...row, rowId, sourceRowIds: sourceIds };
+    });
+
+    steps.push({ ...step, rows });
+  });
+
+  return { dataFlow: steps, parents, children };
+}
+
+/** Ids of the row itself, everything it came from and everything derived from it */
+export function relatedRowIds(lineage: RowLineage, rowId: string): Set<string> {
+  const related = new Set<string>([rowId]);
+
+  const walk = (id: string, edges: Map<string, string[]>) => {
+    for (const next of edges.get(id) ?? []) {
+      if (related.has(next)) continue;
+      related.add(next);
+      walk(next, edges);
+    }
+  };
+
+  walk(rowId, lineage.parents);
+  walk(rowId, lineage.children);
+  return related;
+}
+
+/**
+ * Follows a logical row through every step: whether it is there, made it
+ * through, or was filtered out (with the backend's reason).
+ */
+export function traceRow(lineage: RowLineage, rowId: string): RowTraceEntry[] {
+  const related = relatedRowIds(lineage, rowId);
+
+  return lineage.dataFlow.map((step, stepIndex) => {
+    const rows = step.rows.filter((row) => row.rowId && related.has(row.rowId));
+    if (rows.length === 0) return { stepIndex, status: 'absent' };
+
+    const included = rows.find((row) => row.included);
+    if (included) return { stepIndex, status: 'included' };
+
+    return { stepIndex, status: 'excluded', excludedReason: rows[0].excludedReason };
+  });
+}
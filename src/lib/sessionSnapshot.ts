@@ -0,0 +1,228 @@
+/**
+ * Session snapshots - the whole working state as a `.sqlviz.json` file
+ */
+
+import type { ColumnDefinition, QueryVisualization, TableData, TableSchema } from '@/api/types';
+import { insertStatements, quoteIdentifier, sqlLiteral } from './sqlLiterals';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SnapshotQuery {
+  name: string;
+  sql: string;
+}
+
+export interface SessionSnapshot {
+  format: 'sqlviz';
+  version: number;
+  exportedAt: string;
+  setupSQL: string;
+  tables: TableSchema[];
+  tableData: TableData[];
+  queries: SnapshotQuery[];
+  /** Index into `queries` of the query that was open */
+  activeQuery: number;
+  /** Visualization of the active query, when it had one */
+  visualization?: QueryVisualization;
+}
+
+export const SNAPSHOT_EXTENSION = '.sqlviz.json';
+
+const SNAPSHOT_VERSION = 1;
+
+// ============================================
+// Export
+// ============================================
+
+export function createSnapshot(
+  state: Pick<SessionSnapshot, 'setupSQL' | 'tables' | 'tableData' | 'queries' | 'activeQuery' | 'visualization'>
+): SessionSnapshot {
+  return {
+    format: 'sqlviz',
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...state,
+  };
+}
+
+export function snapshotFileName(date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return `session-${stamp}${SNAPSHOT_EXTENSION}`;
+}
+
+// ============================================
+// Import
+// ============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// A type name with an optional size, e.g. `INTEGER`, `VARCHAR(255)`, `DECIMAL(10, 2)`.
+// Types are written into the rebuilt CREATE TABLE as-is, so nothing else gets through
+const COLUMN_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_ ]*(\(\d+(,\s*\d+)?\))?$/;
+
+function checkTable(schema: unknown, index: number): TableSchema {
+  if (!isObject(schema) || typeof schema.name !== 'string' || !Array.isArray(schema.columns)) {
+    throw new Error(`Bảng #${index + 1} thiếu tên hoặc danh sách cột`);
+  }
+  schema.columns.forEach((column: unknown) => {
+    if (!isObject(column) || typeof column.name !== 'string' || typeof column.type !== 'string') {
+      throw new Error(`Bảng ${schema.name} có cột không hợp lệ`);
+    }
+    if (!COLUMN_TYPE_PATTERN.test(column.type)) {
+      throw new Error(`Cột ${schema.name}.${column.name} có kiểu dữ liệu không hợp lệ: ${column.type}`);
+    }
+  });
+  return schema as unknown as TableSchema;
+}
+
+function checkTableData(data: unknown, index: number): TableData {
+  if (
+    !isObject(data) ||
+    typeof data.tableName !== 'string' ||
+    !isStringArray(data.columns) ||
+    !Array.isArray(data.rows) ||
+    !data.rows.every(isObject)
+  ) {
+    throw new Error(`Dữ liệu bảng #${index + 1} không hợp lệ`);
+  }
+  return data as unknown as TableData;
+}
+
+/** Validates a snapshot file; throws with a message naming the first problem */
+export function parseSnapshot(text: string): SessionSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File không phải JSON hợp lệ');
+  }
+
+  if (!isObject(data) || data.format !== 'sqlviz') {
+    throw new Error(`File không phải bản lưu phiên ${SNAPSHOT_EXTENSION}`);
+  }
+  if (typeof data.version !== 'number' || data.version > SNAPSHOT_VERSION) {
+    throw new Error(`Bản lưu được tạo bởi phiên bản mới hơn (v${String(data.version)})`);
+  }
+  if (typeof data.setupSQL !== 'string') {
+    throw new Error('Bản lưu thiếu SQL thiết lập');
+  }
+  if (!Array.isArray(data.tables) || !Array.isArray(data.tableData)) {
+    throw new Error('Bản lưu thiếu danh sách bảng');
+  }
+  if (!Array.isArray(data.queries) || !data.queries.every((q) => isObject(q) && typeof q.name === 'string' && typeof q.sql === 'string')) {
+    throw new Error('Bản lưu có danh sách query không hợp lệ');
+  }
+
+  const tables = data.tables.map(checkTable);
+  const tableData = data.tableData.map(checkTableData);
+  const missing = tableData.find((d) => !tables.some((t) => t.name === d.tableName));
+  if (missing) {
+    throw new Error(`Có dữ liệu cho bảng ${missing.tableName} nhưng không có cấu trúc của bảng này`);
+  }
+
+  const visualization = data.visualization;
+  if (visualization !== undefined && visualization !== null && (!isObject(visualization) || !Array.isArray(visualization.dataFlow))) {
+    throw new Error('Bản lưu có luồng thực thi không hợp lệ');
+  }
+
+  const queries = data.queries as SnapshotQuery[];
+  const activeQuery = typeof data.activeQuery === 'number' && data.activeQuery >= 0 && data.activeQuery < queries.length
+    ? data.activeQuery
+    : 0;
+
+  return {
+    format: 'sqlviz',
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    setupSQL: data.setupSQL,
+    tables,
+    tableData,
+    queries,
+    activeQuery,
+    visualization: (visualization ?? undefined) as QueryVisualization | undefined,
+  };
+}
+
+// ============================================
+// Rebuild
+// ============================================
+
+function defaultLiteral(value: string): string {
+  if (/^-?\d+(\.\d+)?$/.test(value) || /^(NULL|CURRENT_(TIMESTAMP|DATE|TIME))$/i.test(value)) {
+    return value;
+  }
+  // A quoted default is re-quoted from its contents rather than trusted as written
+  if (/^'.*'$/s.test(value)) {
+    return sqlLiteral(value.slice(1, -1).replace(/''/g, "'"));
+  }
+  return sqlLiteral(value);
+}
+
+function columnDefinition(column: ColumnDefinition, singlePrimaryKey: boolean): string {
+  const parts = [quoteIdentifier(column.name), column.type];
+  if (column.isPrimaryKey && singlePrimaryKey) parts.push('PRIMARY KEY');
+  if (column.isNotNull && !column.isPrimaryKey) parts.push('NOT NULL');
+  if (column.isUnique && !column.isPrimaryKey) parts.push('UNIQUE');
+  if (column.defaultValue !== undefined && column.defaultValue !== null) {
+    parts.push(`DEFAULT ${defaultLiteral(column.defaultValue)}`);
+  }
+  if (column.references) {
+    parts.push(`REFERENCES ${quoteIdentifier(column.references.table)}(${quoteIdentifier(column.references.column)})`);
+  }
+  return parts.join(' ');
+}
+
+function createTableStatement(table: TableSchema): string {
+  const primaryKey = table.columns.filter((column) => column.isPrimaryKey);
+  const lines = table.columns.map((column) => `  ${columnDefinition(column, primaryKey.length === 1)}`);
+  if (primaryKey.length > 1) {
+    lines.push(`  PRIMARY KEY (${primaryKey.map((column) => quoteIdentifier(column.name)).join(', ')})`);
+  }
+  return `CREATE TABLE ${quoteIdentifier(table.name)} (\n${lines.join(',\n')}\n);`;
+}
+
+/** Referenced tables before the tables that point at them, otherwise in file order */
+function creationOrder(tables: TableSchema[]): TableSchema[] {
+  const byName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+  const ordered: TableSchema[] = [];
+  const visiting = new Set<TableSchema>();
+
+  const visit = (table: TableSchema) => {
+    if (ordered.includes(table) || visiting.has(table)) return;
+    visiting.add(table);
+    for (const column of table.columns) {
+      const target = column.references && byName.get(column.references.table.toLowerCase());
+      if (target && target !== table) visit(target);
+    }
+    ordered.push(table);
+  };
+
+  tables.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Script that recreates the snapshot's tables with their exact rows. Falls
+ * back to the setup SQL when the snapshot was taken before any table existed.
+ */
+export function rebuildScript(snapshot: SessionSnapshot): string {
+  if (snapshot.tables.length === 0) return snapshot.setupSQL;
+
+  const statements: string[] = [];
+  for (const table of creationOrder(snapshot.tables)) {
+    statements.push(createTableStatement(table));
+    const data = snapshot.tableData.find((d) => d.tableName === table.name);
+    if (data && data.rows.length > 0) {
+      statements.push(...insertStatements(table.name, data.columns, data.rows));
+    }
+  }
+  return statements.join('\n\n');
+}
@@ -0,0 +1,201 @@
+/**
+ * Schema-aware SQL completion provider for Monaco
+ */
+
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, languages, IDisposable, IRange, Position } from 'monaco-editor';
+import type { TableSchema } from '@/api/types';
+
+// ============================================
+// SQL Vocabulary
+// ============================================
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN',
+  'CROSS JOIN', 'ON', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'IS NULL', 'IS NOT NULL',
+  'LIKE', 'BETWEEN', 'EXISTS', 'GROUP BY', 'HAVING', 'ORDER BY', 'ASC', 'DESC', 'LIMIT',
+  'OFFSET', 'DISTINCT', 'UNION', 'UNION ALL', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'CREATE TABLE', 'PRIMARY KEY', 'FOREIGN KEY', 'REFERENCES', 'NOT NULL', 'UNIQUE', 'DEFAULT',
+  'INSERT INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE FROM', 'DROP TABLE', 'INTEGER', 'TEXT', 'REAL',
+];
+
+export const SQL_FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'ROUND', 'ABS', 'UPPER', 'LOWER', 'LENGTH',
+  'SUBSTR', 'TRIM', 'COALESCE', 'IFNULL', 'NULLIF', 'CAST', 'DATE', 'DATETIME',
+];
+
+// Words that may follow a table name but are never its alias
+const NON_ALIAS_WORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'ON', 'GROUP',
+  'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'SET', 'VALUES',
+]);
+
+// ============================================
+// Scope Analysis
+// ============================================
+
+/**
+ * Maps every name a table can be referred to by (its own name and any alias
+ * declared in FROM/JOIN) to the table name, lower-cased.
+ */
+export function extractTableAliases(sql: string): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const pattern = /\b(?:FROM|JOIN)\s+([A-Za-z_][\w]*)(?:\s+(?:AS\s+)?([A-Za-z_][\w]*))?/gi;
+
+  for (const match of sql.matchAll(pattern)) {
+    const table = match[1].toLowerCase();
+    aliases.set(table, table);
+
+    const alias = match[2];
+    if (alias && !NON_ALIAS_WORDS.has(alias.toUpperCase())) {
+      aliases.set(alias.toLowerCase(), table);
+    }
+  }
+
+  return aliases;
+}
+
+function findTable(tables: TableSchema[], name: string): TableSchema | undefined {
+  return tables.find((table) => table.name.toLowerCase() === name);
+}
+
+// Returns the statement (delimited by semicolons) that contains the given offset
+function statementAt(text: string, offset: number): string {
+  const start = text.lastIndexOf(';', offset - 1) + 1;
+  const end = text.indexOf(';', offset);
+  return text.slice(start, end === -1 ? undefined : end);
+}
+
+// ============================================
+// Completion Provider
+// ============================================
+
+function buildSuggestions(
+  monaco: Monaco,
+  model: editor.ITextModel,
+  position: Position,
+  tables: TableSchema[]
+): languages.CompletionItem[] {
+  const word = model.getWordUntilPosition(position);
+  const range: IRange = {
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: word.startColumn,
+    endColumn: word.endColumn,
+  };
+  const { CompletionItemKind } = monaco.languages;
+
+  const text = model.getValue();
+  const offset = model.getOffsetAt(position);
+  const aliases = extractTableAliases(statementAt(text, offset));
+
+  // "alias." → only the columns of the aliased table
+  const linePrefix = model.getLineContent(position.lineNumber).slice(0, word.startColumn - 1);
+  const qualifier = linePrefix.match(/([A-Za-z_][\w]*)\.$/);
+  if (qualifier) {
+    const tableName = aliases.get(qualifier[1].toLowerCase()) ?? qualifier[1].toLowerCase();
+    const table = findTable(tables, tableName);
+    if (!table) return [];
+
+    return table.columns.map((column) => ({
+      label: column.name,
+      kind: CompletionItemKind.Field,
+      detail: `${table.name}.${column.name}: ${column.type}`,
+      insertText: column.name,
+      range,
+      sortText: `0${column.name}`,
+    }));
+  }
+
+  const suggestions: languages.CompletionItem[] = [];
+
+  // Columns of the tables referenced by this statement, or of every table if none yet
+  const scopedTables = new Set(aliases.values());
+  const columnTables = scopedTables.size > 0
+    ? tables.filter((table) => scopedTables.has(table.name.toLowerCase()))
+    : tables;
+  const seenColumns = new Set<string>();
+
+  for (const table of columnTables) {
+    for (const column of table.columns) {
+      if (seenColumns.has(column.name)) continue;
+      seenColumns.add(column.name);
+      suggestions.push({
+        label: column.name,
+        kind: CompletionItemKind.Field,
+        detail: `${table.name}.${column.name}: ${column.type}`,
+        insertText: column.name,
+        range,
+        sortText: `1${column.name}`,
+      });
+    }
+  }
+
+  for (const table of tables) {
+    suggestions.push({
+      label: table.name,
+      kind: CompletionItemKind.Class,
+      detail: `Bảng (${table.columns.length} cột)`,
+      documentation: table.columns.map((c) => `${c.name} ${c.type}`).join('\n'),
+      insertText: table.name,
+      range,
+      sortText: `2${table.name}`,
+    });
+  }
+
+  for (const keyword of SQL_KEYWORDS) {
+    suggestions.push({
+      label: keyword,
+      kind: CompletionItemKind.Keyword,
+      insertText: keyword,
+      range,
+      sortText: `3${keyword}`,
+    });
+  }
+
+  for (const fn of SQL_FUNCTIONS) {
+    suggestions.push({
+      label: fn,
+      kind: CompletionItemKind.Function,
+      insertText: `${fn}($0)`,
+      insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+      range,
+      sortText: `4${fn}`,
+    });
+  }
+
+  return suggestions;
+}
+
+let registration: IDisposable | null = null;
+let registrationCount = 0;
+
+/**
+ * Registers the SQL completion provider once per Monaco instance, however many
+ * editors are mounted. `getTables` is read on every request so suggestions
+ * follow the latest schema without re-registering.
+ */
+export function registerSqlCompletion(
+  monaco: Monaco,
+  getTables: () => TableSchema[]
+): IDisposable {
+  if (!registration) {
+    registration = monaco.languages.registerCompletionItemProvider('sql', {
+      triggerCharacters: ['.'],
+      provideCompletionItems: (model: editor.ITextModel, position: Position) => ({
+        suggestions: buildSuggestions(monaco, model, position, getTables()),
+      }),
+    });
+  }
+  registrationCount += 1;
+
+  return {
+    dispose: () => {
+      registrationCount -= 1;
+      if (registrationCount === 0 && registration) {
+        registration.dispose();
+        registration = null;
+      }
+    },
+  };
+}
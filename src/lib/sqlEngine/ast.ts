@@ -0,0 +1,153 @@
+/**
+ * Syntax tree for the SQL subset the in-browser engine understands
+ */
+
+/** Values the engine stores; booleans are kept as 1/0 like SQLite */
+export type SqlValue = number | string | null;
+
+/** Character offsets into the parsed script, end exclusive */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+// ============================================
+// Expressions
+// ============================================
+
+export type BinaryOperator =
+  | 'OR' | 'AND'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%' | '||';
+
+export type Expression = Span & (
+  | { kind: 'literal'; value: SqlValue }
+  | { kind: 'column'; table?: string; name: string }
+  /** `*` or `t.*`, only valid in a select list and inside COUNT(*) */
+  | { kind: 'star'; table?: string }
+  | { kind: 'unary'; operator: 'NOT' | '-' | '+'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'in'; operand: Expression; values: Expression[]; negated: boolean }
+  | { kind: 'between'; operand: Expression; low: Expression; high: Expression; negated: boolean }
+  | { kind: 'like'; operand: Expression; pattern: Expression; negated: boolean }
+  | { kind: 'function'; name: string; args: Expression[]; distinct: boolean }
+  | { kind: 'case'; operand?: Expression; branches: { when: Expression; then: Expression }[]; otherwise?: Expression }
+);
+
+export type ExpressionKind = Expression['kind'];
+
+// ============================================
+// SELECT
+// ============================================
+
+export interface SelectItem {
+  expression: Expression;
+  alias?: string;
+}
+
+export interface TableRef {
+  table: string;
+  /** Name rows of this table are qualified with; the table name when no alias is given */
+  alias: string;
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+export interface JoinClause {
+  joinType: JoinType;
+  table: TableRef;
+  on?: Expression;
+  span: Span;
+}
+
+export interface OrderItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+export interface SelectStatement {
+  kind: 'select';
+  span: Span;
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableRef | null;
+  joins: JoinClause[];
+  where?: Expression;
+  groupBy: Expression[];
+  having?: Expression;
+  orderBy: OrderItem[];
+  limit?: Expression;
+  offset?: Expression;
+  /** Source text of each clause, for the execution steps */
+  clauses: {
+    select: Span;
+    from?: Span;
+    where?: Span;
+    groupBy?: Span;
+    having?: Span;
+    orderBy?: Span;
+    limit?: Span;
+    offset?: Span;
+  };
+}
+
+// ============================================
+// Data Definition & Manipulation
+// ============================================
+
+export interface ColumnDef {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+  unique: boolean;
+  defaultValue?: Expression;
+  references?: { table: string; column: string };
+}
+
+export interface CreateTableStatement {
+  kind: 'createTable';
+  span: Span;
+  name: string;
+  ifNotExists: boolean;
+  columns: ColumnDef[];
+}
+
+export interface InsertStatement {
+  kind: 'insert';
+  span: Span;
+  table: string;
+  columns?: string[];
+  rows: Expression[][];
+}
+
+export interface DropTableStatement {
+  kind: 'dropTable';
+  span: Span;
+  name: string;
+  ifExists: boolean;
+}
+
+export interface DeleteStatement {
+  kind: 'delete';
+  span: Span;
+  table: string;
+  where?: Expression;
+}
+
+export interface UpdateStatement {
+  kind: 'update';
+  span: Span;
+  table: string;
+  assignments: { column: string; value: Expression }[];
+  where?: Expression;
+}
+
+export type Statement =
+  | SelectStatement
+  | CreateTableStatement
+  | InsertStatement
+  | DropTableStatement
+  | DeleteStatement
+  | UpdateStatement;
@@ -0,0 +1,325 @@
+/**
+ * In-memory tables and the statements that change them
+ */
+
+import type {
+  ColumnDefinition,
+  ERDiagram,
+  ERRelationship,
+  ExecuteSQLResponse,
+  GetTablesResponse,
+  RowData,
+  TableData,
+  TableSchema,
+} from '@/api/types';
+import type {
+  ColumnDef,
+  CreateTableStatement,
+  DeleteStatement,
+  DropTableStatement,
+  Expression,
+  InsertStatement,
+  SqlValue,
+  Statement,
+  UpdateStatement,
+} from './ast';
+import { executionError } from './errors';
+import { evaluate, formatValue, truth, type Scope } from './evaluate';
+import { runSelect } from './visualize';
+
+interface StoredTable {
+  name: string;
+  columns: ColumnDef[];
+  rows: RowData[];
+}
+
+// Literals only; column references in VALUES or DEFAULT are an error
+const EMPTY_SCOPE: Scope = {
+  column: (table, name) => {
+    throw executionError(`no such column: ${table ? `${table}.` : ''}${name}`);
+  },
+};
+
+/** SQLite-style type affinity: numeric columns store numbers, text columns store text */
+function applyAffinity(type: string, value: SqlValue): SqlValue {
+  if (value === null) return null;
+  if (/INT|REAL|FLOA|DOUB|NUM|DEC/.test(type)) {
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+    return value;
+  }
+  if (/CHAR|CLOB|TEXT/.test(type) && typeof value === 'number') {
+    return String(value);
+  }
+  return value;
+}
+
+function isRowIdAlias(column: ColumnDef, table: StoredTable): boolean {
+  return column.primaryKey && column.type === 'INTEGER' &&
+    table.columns.filter((c) => c.primaryKey).length === 1;
+}
+
+export class Database {
+  private tables = new Map<string, StoredTable>();
+
+  // ============================================
+  // Lookup
+  // ============================================
+
+  /** Case-insensitive table lookup */
+  table(name: string): StoredTable {
+    const table = this.tables.get(name.toLowerCase());
+    if (!table) throw executionError(`no such table: ${name}`);
+    return table;
+  }
+
+  hasTable(name: string): boolean {
+    return this.tables.has(name.toLowerCase());
+  }
+
+  private column(table: StoredTable, name: string): ColumnDef {
+    const column = table.columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+    if (!column) throw executionError(`table ${table.name} has no column named ${name}`);
+    return column;
+  }
+
+  private rowScope(table: StoredTable, row: RowData): Scope {
+    return {
+      column: (qualifier, name) => {
+        if (qualifier && qualifier.toLowerCase() !== table.name.toLowerCase()) {
+          throw executionError(`no such column: ${qualifier}.${name}`);
+        }
+        const column = table.columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+        if (!column) throw executionError(`no such column: ${name}`);
+        return row[column.name] as SqlValue;
+      },
+    };
+  }
+
+  // ============================================
+  // Statements
+  // ============================================
+
+  /** Runs one parsed statement; `sql` is the script it was parsed from */
+  execute(statement: Statement, sql: string): ExecuteSQLResponse {
+    switch (statement.kind) {
+      case 'createTable':
+        return this.createTable(statement);
+      case 'insert':
+        return this.insert(statement);
+      case 'dropTable':
+        return this.dropTable(statement);
+      case 'delete':
+        return this.deleteRows(statement);
+      case 'update':
+        return this.update(statement);
+      case 'select': {
+        const result = runSelect(this, statement, sql);
+        return {
+          success: true,
+          message: `Query returned ${result.rows.length} row(s)`,
+          data: result,
+        };
+      }
+    }
+  }
+
+  private createTable(statement: CreateTableStatement): ExecuteSQLResponse {
+    if (this.hasTable(statement.name)) {
+      if (statement.ifNotExists) {
+        return { success: true, message: `Table ${statement.name} already exists`, affectedTables: [] };
+      }
+      throw executionError(`table ${statement.name} already exists`);
+    }
+    this.tables.set(statement.name.toLowerCase(), {
+      name: statement.name,
+      columns: statement.columns,
+      rows: [],
+    });
+    return {
+      success: true,
+      message: `Table ${statement.name} created successfully`,
+      affectedTables: [statement.name],
+    };
+  }
+
+  private insert(statement: InsertStatement): ExecuteSQLResponse {
+    const table = this.table(statement.table);
+    const targets = statement.columns
+      ? statement.columns.map((name) => this.column(table, name))
+      : table.columns;
+
+    const inserted: RowData[] = [];
+    for (const values of statement.rows) {
+      if (values.length !== targets.length) {
+        throw executionError(
+          `${values.length} values for ${targets.length} columns`,
+          { offset: values[0]?.start }
+        );
+      }
+      const row: RowData = {};
+      for (const column of table.columns) {
+        const index = targets.indexOf(column);
+        const expression: Expression | undefined = index === -1 ? column.defaultValue : values[index];
+        row[column.name] = expression ? applyAffinity(column.type, evaluate(expression, EMPTY_SCOPE)) : null;
+      }
+      this.fillRowId(table, [...table.rows, ...inserted], row);
+      this.checkConstraints(table, [...table.rows, ...inserted], row);
+      inserted.push(row);
+    }
+
+    table.rows.push(...inserted);
+    return {
+      success: true,
+      message: `Inserted ${inserted.length} row(s) into ${table.name}`,
+      affectedTables: [table.name],
+    };
+  }
+
+  /** INTEGER PRIMARY KEY columns left NULL get the next id */
+  private fillRowId(table: StoredTable, existing: RowData[], row: RowData): void {
+    for (const column of table.columns) {
+      if (isRowIdAlias(column, table) && row[column.name] === null) {
+        const ids = existing.map((r) => Number(r[column.name])).filter((id) => !Number.isNaN(id));
+        row[column.name] = ids.length === 0 ? 1 : Math.max(...ids) + 1;
+      }
+    }
+  }
+
+  private checkConstraints(table: StoredTable, existing: RowData[], row: RowData, ignore?: RowData): void {
+    for (const column of table.columns) {
+      if ((column.notNull || (column.primaryKey && isRowIdAlias(column, table))) && row[column.name] === null) {
+        throw executionError(`NOT NULL constraint failed: ${table.name}.${column.name}`);
+      }
+    }
+
+    const keySets = [
+      table.columns.filter((c) => c.primaryKey),
+      ...table.columns.filter((c) => c.unique).map((c) => [c]),
+    ].filter((columns) => columns.length > 0);
+
+    for (const columns of keySets) {
+      if (columns.some((c) => row[c.name] === null)) continue;
+      const duplicate = existing.some((other) =>
+        other !== ignore && columns.every((c) => formatValue(other[c.name] as SqlValue) === formatValue(row[c.name] as SqlValue))
+      );
+      if (duplicate) {
+        throw executionError(
+          `UNIQUE constraint failed: ${columns.map((c) => `${table.name}.${c.name}`).join(', ')}`
+        );
+      }
+    }
+  }
+
+  private dropTable(statement: DropTableStatement): ExecuteSQLResponse {
+    if (!this.hasTable(statement.name)) {
+      if (statement.ifExists) {
+        return { success: true, message: `Table ${statement.name} does not exist`, affectedTables: [] };
+      }
+      throw executionError(`no such table: ${statement.name}`);
+    }
+    const table = this.table(statement.name);
+    this.tables.delete(statement.name.toLowerCase());
+    return { success: true, message: `Table ${table.name} dropped`, affectedTables: [table.name] };
+  }
+
+  private matches(table: StoredTable, row: RowData, where?: Expression): boolean {
+    return !where || truth(evaluate(where, this.rowScope(table, row))) === true;
+  }
+
+  private deleteRows(statement: DeleteStatement): ExecuteSQLResponse {
+    const table = this.table(statement.table);
+    const kept = table.rows.filter((row) => !this.matches(table, row, statement.where));
+    const deleted = table.rows.length - kept.length;
+    table.rows = kept;
+    return {
+      success: true,
+      message: `Deleted ${deleted} row(s) from ${table.name}`,
+      affectedTables: [table.name],
+    };
+  }
+
+  private update(statement: UpdateStatement): ExecuteSQLResponse {
+    const table = this.table(statement.table);
+    const assignments = statement.assignments.map((a) => ({ column: this.column(table, a.column), value: a.value }));
+
+    let updated = 0;
+    table.rows = table.rows.map((row) => {
+      if (!this.matches(table, row, statement.where)) return row;
+      const scope = this.rowScope(table, row);
+      const next = { ...row };
+      for (const { column, value } of assignments) {
+        next[column.name] = applyAffinity(column.type, evaluate(value, scope));
+      }
+      this.checkConstraints(table, table.rows, next, row);
+      updated++;
+      return next;
+    });
+
+    return {
+      success: true,
+      message: `Updated ${updated} row(s) in ${table.name}`,
+      affectedTables: [table.name],
+    };
+  }
+
+  // ============================================
+  // Schema
+  // ============================================
+
+  private schemaOf(table: StoredTable): TableSchema {
+    return {
+      name: table.name,
+      columns: table.columns.map((column): ColumnDefinition => ({
+        name: column.name,
+        type: column.type,
+        isPrimaryKey: column.primaryKey,
+        isForeignKey: !!column.references,
+        isNotNull: column.notNull || column.primaryKey,
+        isUnique: column.unique || column.primaryKey,
+        defaultValue: column.defaultValue
+          ? formatValue(evaluate(column.defaultValue, EMPTY_SCOPE))
+          : undefined,
+        references: column.references,
+      })),
+    };
+  }
+
+  tableData(name: string): TableData {
+    const table = this.table(name);
+    return {
+      tableName: table.name,
+      columns: table.columns.map((column) => column.name),
+      rows: table.rows.map((row) => ({ ...row })),
+    };
+  }
+
+  private erDiagram(schemas: TableSchema[]): ERDiagram {
+    const relationships: ERRelationship[] = [];
+    for (const schema of schemas) {
+      for (const column of schema.columns) {
+        if (!column.references) continue;
+        relationships.push({
+          fromTable: schema.name,
+          fromColumn: column.name,
+          toTable: column.references.table,
+          toColumn: column.references.column,
+          type: column.isUnique ? 'one-to-one' : 'one-to-many',
+        });
+      }
+    }
+    return { tables: schemas, relationships };
+  }
+
+  getTables(): GetTablesResponse {
+    const tables = [...this.tables.values()];
+    const schemas = tables.map((table) => this.schemaOf(table));
+    return {
+      tables: schemas,
+      tableData: tables.map((table) => this.tableData(table.name)),
+      // Like the backend, only present once there are tables to relate
+      erDiagram: schemas.length >= 2 ? this.erDiagram(schemas) : undefined,
+    };
+  }
+}
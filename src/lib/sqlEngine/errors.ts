@@ -0,0 +1,34 @@
+/**
+ * Errors raised by the in-browser SQL engine
+ */
+
+import type { ApiErrorCode } from '@/api/types';
+
+export class SqlEngineError extends Error {
+  readonly code: ApiErrorCode;
+  details?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'SqlEngineError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Syntax error pointing at a character offset of the script */
+export function parseError(message: string, offset: number): SqlEngineError {
+  return new SqlEngineError('SQL_PARSE_ERROR', message, { offset });
+}
+
+export function executionError(message: string, details?: unknown): SqlEngineError {
+  return new SqlEngineError('SQL_EXECUTION_ERROR', message, details);
+}
+
+/** Points an error that has no location yet at `offset` */
+export function locateError(error: unknown, offset: number): unknown {
+  if (error instanceof SqlEngineError && error.details === undefined) {
+    error.details = { offset };
+  }
+  return error;
+}
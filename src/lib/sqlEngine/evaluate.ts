@@ -0,0 +1,351 @@
+/**
+ * Expression evaluation with SQL three-valued logic
+ */
+
+import type { Expression, SqlValue } from './ast';
+import { executionError, locateError } from './errors';
+
+// ============================================
+// Scope
+// ============================================
+
+/** What an expression can see while it is evaluated for one row */
+export interface Scope {
+  /** Value of a column reference; throws for unknown or ambiguous columns */
+  column(table: string | undefined, name: string): SqlValue;
+  /** Member rows when evaluating for a group; aggregates need these */
+  group?: Scope[];
+}
+
+export const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'TOTAL', 'GROUP_CONCAT']);
+
+export function isAggregateCall(expression: Expression): boolean {
+  return expression.kind === 'function' && AGGREGATE_FUNCTIONS.has(expression.name);
+}
+
+/** Direct sub-expressions of a node */
+export function childExpressions(expression: Expression): Expression[] {
+  switch (expression.kind) {
+    case 'unary':
+    case 'isNull':
+      return [expression.operand];
+    case 'binary':
+      return [expression.left, expression.right];
+    case 'in':
+      return [expression.operand, ...expression.values];
+    case 'between':
+      return [expression.operand, expression.low, expression.high];
+    case 'like':
+      return [expression.operand, expression.pattern];
+    case 'function':
+      return expression.args;
+    case 'case':
+      return [
+        ...(expression.operand ? [expression.operand] : []),
+        ...expression.branches.flatMap((branch) => [branch.when, branch.then]),
+        ...(expression.otherwise ? [expression.otherwise] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+/** Every aggregate call in the expression, outermost first */
+export function findAggregates(expression: Expression): Expression[] {
+  if (isAggregateCall(expression)) return [expression];
+  return childExpressions(expression).flatMap(findAggregates);
+}
+
+// ============================================
+// Values
+// ============================================
+
+/** TRUE, FALSE or UNKNOWN (null) for a value used as a condition */
+export function truth(value: SqlValue): boolean | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value !== 0;
+  const number = Number(value);
+  return !Number.isNaN(number) && number !== 0;
+}
+
+function fromTruth(value: boolean | null): SqlValue {
+  return value === null ? null : value ? 1 : 0;
+}
+
+function asNumber(value: SqlValue): number {
+  if (typeof value === 'number') return value;
+  const number = Number(value);
+  return Number.isNaN(number) ? 0 : number;
+}
+
+function isNumeric(value: SqlValue): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)));
+}
+
+/**
+ * Orders two non-null values. Numbers sort before text, except that text
+ * holding a number is compared numerically against a number.
+ */
+export function compareValues(a: SqlValue, b: SqlValue): number {
+  if (a === null || b === null) {
+    if (a === b) return 0;
+    return a === null ? -1 : 1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number' || typeof b === 'number') {
+    if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+    return typeof a === 'number' ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function formatValue(value: SqlValue): string {
+  return value === null ? 'NULL' : String(value);
+}
+
+function likePattern(pattern: string): RegExp {
+  let source = '';
+  for (const char of pattern) {
+    if (char === '%') source += '[\\s\\S]*';
+    else if (char === '_') source += '[\\s\\S]';
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+export function evaluate(expression: Expression, scope: Scope): SqlValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+
+    case 'column':
+      try {
+        return scope.column(expression.table, expression.name);
+      } catch (error) {
+        throw locateError(error, expression.start);
+      }
+
+    case 'star':
+      throw executionError('near "*": syntax error');
+
+    case 'unary': {
+      const operand = evaluate(expression.operand, scope);
+      if (expression.operator === 'NOT') {
+        const value = truth(operand);
+        return fromTruth(value === null ? null : !value);
+      }
+      if (operand === null) return null;
+      return expression.operator === '-' ? -asNumber(operand) : asNumber(operand);
+    }
+
+    case 'binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, scope);
+
+    case 'isNull': {
+      const isNull = evaluate(expression.operand, scope) === null;
+      return fromTruth(expression.negated ? !isNull : isNull);
+    }
+
+    case 'in': {
+      const operand = evaluate(expression.operand, scope);
+      let result: boolean | null = false;
+      if (operand === null) {
+        result = expression.values.length === 0 ? false : null;
+      } else {
+        for (const candidate of expression.values) {
+          const value = evaluate(candidate, scope);
+          if (value === null) {
+            result = null;
+          } else if (compareValues(operand, value) === 0) {
+            result = true;
+            break;
+          }
+        }
+      }
+      return fromTruth(expression.negated && result !== null ? !result : result);
+    }
+
+    case 'between': {
+      const operand = evaluate(expression.operand, scope);
+      const low = evaluate(expression.low, scope);
+      const high = evaluate(expression.high, scope);
+      const aboveLow = operand === null || low === null ? null : compareValues(operand, low) >= 0;
+      const belowHigh = operand === null || high === null ? null : compareValues(operand, high) <= 0;
+      const result = and(aboveLow, belowHigh);
+      return fromTruth(expression.negated && result !== null ? !result : result);
+    }
+
+    case 'like': {
+      const operand = evaluate(expression.operand, scope);
+      const pattern = evaluate(expression.pattern, scope);
+      if (operand === null || pattern === null) return null;
+      const matches = likePattern(String(pattern)).test(String(operand));
+      return fromTruth(expression.negated ? !matches : matches);
+    }
+
+    case 'function':
+      return isAggregateCall(expression)
+        ? evaluateAggregate(expression, scope)
+        : evaluateScalarAt(expression, expression.args.map((arg) => evaluate(arg, scope)));
+
+    case 'case': {
+      const operand = expression.operand ? evaluate(expression.operand, scope) : undefined;
+      for (const branch of expression.branches) {
+        const when = evaluate(branch.when, scope);
+        const matched = operand === undefined
+          ? truth(when) === true
+          : operand !== null && when !== null && compareValues(operand, when) === 0;
+        if (matched) return evaluate(branch.then, scope);
+      }
+      return expression.otherwise ? evaluate(expression.otherwise, scope) : null;
+    }
+  }
+}
+
+function and(a: boolean | null, b: boolean | null): boolean | null {
+  if (a === false || b === false) return false;
+  if (a === null || b === null) return null;
+  return true;
+}
+
+function or(a: boolean | null, b: boolean | null): boolean | null {
+  if (a === true || b === true) return true;
+  if (a === null || b === null) return null;
+  return false;
+}
+
+function evaluateBinary(operator: string, leftExpression: Expression, rightExpression: Expression, scope: Scope): SqlValue {
+  const left = evaluate(leftExpression, scope);
+  const right = evaluate(rightExpression, scope);
+
+  if (operator === 'AND') return fromTruth(and(truth(left), truth(right)));
+  if (operator === 'OR') return fromTruth(or(truth(left), truth(right)));
+  if (left === null || right === null) return null;
+
+  switch (operator) {
+    case '=': return fromTruth(compareValues(left, right) === 0);
+    case '!=': return fromTruth(compareValues(left, right) !== 0);
+    case '<': return fromTruth(compareValues(left, right) < 0);
+    case '<=': return fromTruth(compareValues(left, right) <= 0);
+    case '>': return fromTruth(compareValues(left, right) > 0);
+    case '>=': return fromTruth(compareValues(left, right) >= 0);
+    case '||': return String(left) + String(right);
+  }
+
+  const a = asNumber(left);
+  const b = asNumber(right);
+  const integers = Number.isInteger(a) && Number.isInteger(b);
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    // Division by zero is NULL, and integer division truncates, as in SQLite
+    case '/': return b === 0 ? null : integers ? Math.trunc(a / b) : a / b;
+    case '%': return b === 0 ? null : a % b;
+  }
+  throw executionError(`unsupported operator: ${operator}`);
+}
+
+// ============================================
+// Functions
+// ============================================
+
+function evaluateAggregate(expression: Extract<Expression, { kind: 'function' }>, scope: Scope): SqlValue {
+  const { name, args, distinct } = expression;
+  if (!scope.group) {
+    throw executionError(`misuse of aggregate function ${name}()`);
+  }
+  if (name === 'COUNT' && args.length === 1 && args[0].kind === 'star') {
+    return scope.group.length;
+  }
+  if (args.length !== 1) {
+    throw executionError(`wrong number of arguments to function ${name}()`);
+  }
+
+  let values = scope.group
+    .map((member) => evaluate(args[0], member))
+    .filter((value): value is number | string => value !== null);
+  if (distinct) {
+    values = values.filter((value, index) => values.findIndex((v) => compareValues(v, value) === 0) === index);
+  }
+
+  switch (name) {
+    case 'COUNT':
+      return values.length;
+    case 'SUM':
+      return values.length === 0 ? null : values.reduce<number>((sum, value) => sum + asNumber(value), 0);
+    case 'TOTAL':
+      return values.reduce<number>((sum, value) => sum + asNumber(value), 0);
+    case 'AVG':
+      return values.length === 0
+        ? null
+        : values.reduce<number>((sum, value) => sum + asNumber(value), 0) / values.length;
+    case 'MIN':
+    case 'MAX': {
+      if (values.length === 0) return null;
+      const sorted = [...values].sort(compareValues);
+      return name === 'MIN' ? sorted[0] : sorted[sorted.length - 1];
+    }
+    case 'GROUP_CONCAT':
+      return values.length === 0 ? null : values.map(String).join(',');
+  }
+  throw executionError(`no such function: ${name}`);
+}
+
+function evaluateScalarAt(expression: Expression & { kind: 'function' }, args: SqlValue[]): SqlValue {
+  try {
+    return evaluateScalar(expression.name, args);
+  } catch (error) {
+    throw locateError(error, expression.start);
+  }
+}
+
+function evaluateScalar(name: string, args: SqlValue[]): SqlValue {
+  const [first, second, third] = args;
+
+  switch (name) {
+    case 'COALESCE':
+    case 'IFNULL':
+      return args.find((value) => value !== null) ?? null;
+    case 'NULLIF':
+      return first !== null && second !== null && compareValues(first, second) === 0 ? null : first;
+  }
+
+  if (first === null || first === undefined) return null;
+
+  switch (name) {
+    case 'UPPER':
+      return String(first).toUpperCase();
+    case 'LOWER':
+      return String(first).toLowerCase();
+    case 'LENGTH':
+      return String(first).length;
+    case 'TRIM':
+      return String(first).trim();
+    case 'ABS':
+      return Math.abs(asNumber(first));
+    case 'ROUND': {
+      const digits = second === null || second === undefined ? 0 : asNumber(second);
+      const factor = 10 ** digits;
+      return Math.round(asNumber(first) * factor) / factor;
+    }
+    case 'SUBSTR':
+    case 'SUBSTRING': {
+      const text = String(first);
+      const start = second === null || second === undefined ? 1 : asNumber(second);
+      const from = start > 0 ? start - 1 : Math.max(text.length + start, 0);
+      return third === null || third === undefined
+        ? text.slice(from)
+        : text.slice(from, from + asNumber(third));
+    }
+    case 'REPLACE':
+      return second === null || third === null || second === undefined || third === undefined
+        ? null
+        : String(first).split(String(second)).join(String(third));
+  }
+  throw executionError(`no such function: ${name}`);
+}
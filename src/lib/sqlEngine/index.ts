@@ -0,0 +1,123 @@
+/**
+ * In-browser SQL engine - sessions of in-memory databases answering the same
+ * requests as the backend, so the app keeps working offline
+ */
+
+import type {
+  CreateSessionResponse,
+  ExecuteSQLResponse,
+  GetTablesResponse,
+  Session,
+  TableData,
+  VisualizeQueryResponse,
+} from '@/api/types';
+import { Database } from './database';
+import { SqlEngineError } from './errors';
+import { parseScript, parseSelect } from './parser';
+import { visualizeSelect } from './visualize';
+
+export { SqlEngineError } from './errors';
+export { compareValues as compareSqlValues } from './evaluate';
+export type { SqlValue } from './ast';
+
+interface LocalSession {
+  session: Session;
+  database: Database;
+}
+
+function newSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export class LocalSqlEngine {
+  private sessions = new Map<string, LocalSession>();
+
+  private open(sessionId: string): LocalSession {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      throw new SqlEngineError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+    }
+    entry.session.lastAccessedAt = new Date().toISOString();
+    return entry;
+  }
+
+  // ============================================
+  // Sessions
+  // ============================================
+
+  createSession(): CreateSessionResponse {
+    const now = new Date().toISOString();
+    const sessionId = newSessionId();
+    this.sessions.set(sessionId, {
+      session: { id: sessionId, createdAt: now, lastAccessedAt: now },
+      database: new Database(),
+    });
+    return { sessionId };
+  }
+
+  getSession(sessionId: string): Session {
+    return { ...this.open(sessionId).session };
+  }
+
+  deleteSession(sessionId: string): { deleted: boolean } {
+    return { deleted: this.sessions.delete(sessionId) };
+  }
+
+  listSessions(): Session[] {
+    return [...this.sessions.values()].map((entry) => ({ ...entry.session }));
+  }
+
+  // ============================================
+  // SQL
+  // ============================================
+
+  /**
+   * Runs every statement of the script in order, stopping at the first
+   * failure; statements before it stay applied, as on the server.
+   */
+  executeMultipleSQL(sessionId: string, sql: string): ExecuteSQLResponse[] {
+    const { database } = this.open(sessionId);
+    const statements = parseScript(sql);
+    return statements.map((statement, index) => {
+      try {
+        return database.execute(statement, sql);
+      } catch (error) {
+        // Kept alongside any offset so callers know which statements ran before it
+        if (error instanceof SqlEngineError) {
+          const details = typeof error.details === 'object' && error.details !== null ? error.details : {};
+          error.details = {
+            ...details,
+            statementIndex: index,
+            statement: sql.slice(statement.span.start, statement.span.end),
+          };
+        }
+        throw error;
+      }
+    });
+  }
+
+  executeSQL(sessionId: string, sql: string): ExecuteSQLResponse {
+    const results = this.executeMultipleSQL(sessionId, sql);
+    return results[results.length - 1] ?? { success: true, message: 'No statements to execute' };
+  }
+
+  getTables(sessionId: string): GetTablesResponse {
+    return this.open(sessionId).database.getTables();
+  }
+
+  getTableData(sessionId: string, tableName: string): TableData {
+    const { database } = this.open(sessionId);
+    if (!database.hasTable(tableName)) {
+      throw new SqlEngineError('NOT_FOUND', `Table ${tableName} not found`);
+    }
+    return database.tableData(tableName);
+  }
+
+  visualizeQuery(sessionId: string, query: string): VisualizeQueryResponse {
+    const { database } = this.open(sessionId);
+    const statement = parseSelect(query);
+    return { visualization: visualizeSelect(database, statement, query) };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * SQL tokenizer for the in-browser engine
+ */
+
+import { parseError } from './errors';
+
+export type TokenType = 'word' | 'identifier' | 'number' | 'string' | 'operator' | 'punctuation' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Raw text for words/operators, unquoted contents for strings and quoted identifiers */
+  value: string;
+  /** Upper-cased value, used to match keywords */
+  upper: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+const PUNCTUATION = new Set(['(', ')', ',', '.', ';']);
+const CLOSING_QUOTES: Record<string, string> = { '"': '"', '`': '`', '[': ']' };
+
+function token(type: TokenType, value: string, start: number, end: number): Token {
+  return { type, value, upper: value.toUpperCase(), start, end };
+}
+
+/** Reads a quoted run starting at `start`, where a doubled quote is an escaped one */
+function readQuoted(sql: string, start: number, close: string): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === close) {
+      if (close !== ']' && sql[i + 1] === close) {
+        value += close;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += sql[i];
+    i++;
+  }
+  throw parseError('unrecognized token: unterminated quoted text', start);
+}
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (char === '-' && sql[i + 1] === '-') {
+      const lineEnd = sql.indexOf('\n', i);
+      i = lineEnd === -1 ? sql.length : lineEnd + 1;
+      continue;
+    }
+    if (char === '/' && sql[i + 1] === '*') {
+      const commentEnd = sql.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? sql.length : commentEnd + 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const { value, end } = readQuoted(sql, i, "'");
+      tokens.push({ type: 'string', value, upper: value.toUpperCase(), start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (char in CLOSING_QUOTES) {
+      const { value, end } = readQuoted(sql, i, CLOSING_QUOTES[char]);
+      tokens.push({ type: 'identifier', value, upper: value.toUpperCase(), start: i, end });
+      i = end;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(i));
+    if (number) {
+      tokens.push(token('number', number[0], i, i + number[0].length));
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_À-￿][\w$À-￿]*/.exec(sql.slice(i));
+    if (word) {
+      tokens.push(token('word', word[0], i, i + word[0].length));
+      i += word[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => sql.startsWith(op, i));
+    if (operator) {
+      tokens.push(token('operator', operator, i, i + operator.length));
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push(token('punctuation', char, i, i + 1));
+      i++;
+      continue;
+    }
+
+    throw parseError(`unrecognized token: "${char}"`, i);
+  }
+
+  tokens.push(token('eof', '', sql.length, sql.length));
+  return tokens;
+}
@@ -0,0 +1,756 @@
+/**
+ * Recursive-descent parser for the in-browser SQL engine
+ */
+
+import { parseError } from './errors';
+import { tokenize, type Token } from './lexer';
+import type {
+  BinaryOperator,
+  ColumnDef,
+  CreateTableStatement,
+  DeleteStatement,
+  DropTableStatement,
+  Expression,
+  InsertStatement,
+  JoinClause,
+  JoinType,
+  OrderItem,
+  SelectItem,
+  SelectStatement,
+  Span,
+  Statement,
+  TableRef,
+  UpdateStatement,
+} from './ast';
+
+// Words that end an expression or a table reference instead of naming an alias
+const RESERVED = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'BY',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'ON', 'AS', 'USING',
+  'AND', 'OR', 'NOT', 'IS', 'IN', 'LIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'UNION', 'INTERSECT', 'EXCEPT', 'ASC', 'DESC', 'NULL', 'DISTINCT', 'ALL', 'VALUES', 'SET',
+]);
+
+const COMPARISON_OPERATORS: Record<string, BinaryOperator> = {
+  '=': '=', '==': '=', '!=': '!=', '<>': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+class Parser {
+  private readonly sql: string;
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(sql: string) {
+    this.sql = sql;
+    this.tokens = tokenize(sql);
+  }
+
+  // ============================================
+  // Token Helpers
+  // ============================================
+
+  private get current(): Token {
+    return this.tokens[this.position];
+  }
+
+  private peek(offset = 1): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private previousEnd(): number {
+    return this.tokens[this.position - 1]?.end ?? 0;
+  }
+
+  private atEnd(): boolean {
+    return this.current.type === 'eof';
+  }
+
+  private advance(): Token {
+    const token = this.current;
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private isWord(...words: string[]): boolean {
+    return this.current.type === 'word' && words.includes(this.current.upper);
+  }
+
+  private isSymbol(symbol: string): boolean {
+    return (this.current.type === 'punctuation' || this.current.type === 'operator') &&
+      this.current.value === symbol;
+  }
+
+  private acceptWord(...words: string[]): boolean {
+    if (!this.isWord(...words)) return false;
+    this.advance();
+    return true;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false;
+    this.advance();
+    return true;
+  }
+
+  private fail(token: Token = this.current): never {
+    if (token.type === 'eof') {
+      throw parseError('incomplete input', token.start);
+    }
+    const text = this.sql.slice(token.start, token.end);
+    throw parseError(`near "${text}": syntax error`, token.start);
+  }
+
+  private expectWord(...words: string[]): Token {
+    if (!this.isWord(...words)) this.fail();
+    return this.advance();
+  }
+
+  private expectSymbol(symbol: string): Token {
+    if (!this.isSymbol(symbol)) this.fail();
+    return this.advance();
+  }
+
+  private expectName(): string {
+    const token = this.current;
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED.has(token.upper))) {
+      this.advance();
+      return token.value;
+    }
+    return this.fail();
+  }
+
+  private optionalAlias(): string | undefined {
+    if (this.acceptWord('AS')) return this.expectName();
+    const token = this.current;
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED.has(token.upper))) {
+      this.advance();
+      return token.value;
+    }
+    if (token.type === 'string') {
+      this.advance();
+      return token.value;
+    }
+    return undefined;
+  }
+
+  // ============================================
+  // Script
+  // ============================================
+
+  parseScript(): Statement[] {
+    const statements: Statement[] = [];
+    while (!this.atEnd()) {
+      if (this.acceptSymbol(';')) continue;
+      statements.push(this.parseStatement());
+      if (!this.atEnd()) this.expectSymbol(';');
+    }
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    if (this.isWord('SELECT')) return this.parseSelect();
+    if (this.isWord('CREATE')) return this.parseCreateTable();
+    if (this.isWord('INSERT')) return this.parseInsert();
+    if (this.isWord('DROP')) return this.parseDropTable();
+    if (this.isWord('DELETE')) return this.parseDelete();
+    if (this.isWord('UPDATE')) return this.parseUpdate();
+    return this.fail();
+  }
+
+  // ============================================
+  // SELECT
+  // ============================================
+
+  private clauseSpan(start: number): Span {
+    return { start, end: this.previousEnd() };
+  }
+
+  parseSelect(): SelectStatement {
+    const start = this.expectWord('SELECT').start;
+    const distinct = this.acceptWord('DISTINCT');
+    if (!distinct) this.acceptWord('ALL');
+
+    const columns: SelectItem[] = [];
+    do {
+      columns.push(this.parseSelectItem());
+    } while (this.acceptSymbol(','));
+    const selectSpan = this.clauseSpan(start);
+
+    const statement: SelectStatement = {
+      kind: 'select',
+      span: { start, end: start },
+      distinct,
+      columns,
+      from: null,
+      joins: [],
+      groupBy: [],
+      orderBy: [],
+      clauses: { select: selectSpan },
+    };
+
+    if (this.isWord('FROM')) {
+      const fromStart = this.advance().start;
+      statement.from = this.parseTableRef();
+      statement.clauses.from = this.clauseSpan(fromStart);
+      statement.joins = this.parseJoins();
+    }
+
+    if (this.isWord('WHERE')) {
+      const clauseStart = this.advance().start;
+      statement.where = this.parseExpression();
+      statement.clauses.where = this.clauseSpan(clauseStart);
+    }
+
+    if (this.isWord('GROUP')) {
+      const clauseStart = this.advance().start;
+      this.expectWord('BY');
+      do {
+        statement.groupBy.push(this.parseExpression());
+      } while (this.acceptSymbol(','));
+      statement.clauses.groupBy = this.clauseSpan(clauseStart);
+    }
+
+    if (this.isWord('HAVING')) {
+      const clauseStart = this.advance().start;
+      statement.having = this.parseExpression();
+      statement.clauses.having = this.clauseSpan(clauseStart);
+    }
+
+    if (this.isWord('ORDER')) {
+      const clauseStart = this.advance().start;
+      this.expectWord('BY');
+      do {
+        statement.orderBy.push(this.parseOrderItem());
+      } while (this.acceptSymbol(','));
+      statement.clauses.orderBy = this.clauseSpan(clauseStart);
+    }
+
+    if (this.isWord('LIMIT')) {
+      const clauseStart = this.advance().start;
+      statement.limit = this.parseExpression();
+      statement.clauses.limit = this.clauseSpan(clauseStart);
+    }
+
+    if (this.isWord('OFFSET')) {
+      const clauseStart = this.advance().start;
+      statement.offset = this.parseExpression();
+      statement.clauses.offset = this.clauseSpan(clauseStart);
+    }
+
+    statement.span = this.clauseSpan(start);
+    return statement;
+  }
+
+  private parseSelectItem(): SelectItem {
+    const token = this.current;
+    if (this.acceptSymbol('*')) {
+      return { expression: { kind: 'star', start: token.start, end: token.end } };
+    }
+    // t.*
+    if ((token.type === 'word' || token.type === 'identifier') &&
+      this.peek().value === '.' && this.peek(2).value === '*') {
+      this.position += 3;
+      return { expression: { kind: 'star', table: token.value, start: token.start, end: this.previousEnd() } };
+    }
+    const expression = this.parseExpression();
+    return { expression, alias: this.optionalAlias() };
+  }
+
+  private parseTableRef(): TableRef {
+    const table = this.expectName();
+    return { table, alias: this.optionalAlias() ?? table };
+  }
+
+  private parseJoins(): JoinClause[] {
+    const joins: JoinClause[] = [];
+
+    while (true) {
+      const start = this.current.start;
+
+      // FROM a, b is a cross join
+      if (this.acceptSymbol(',')) {
+        joins.push({ joinType: 'CROSS', table: this.parseTableRef(), span: this.clauseSpan(start) });
+        continue;
+      }
+
+      let joinType: JoinType = 'INNER';
+      if (this.isWord('INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS')) {
+        joinType = this.advance().upper as JoinType;
+        if (joinType !== 'INNER' && joinType !== 'CROSS') this.acceptWord('OUTER');
+      }
+      if (!this.isWord('JOIN')) {
+        if (start !== this.current.start) this.fail();
+        return joins;
+      }
+      this.advance();
+
+      const table = this.parseTableRef();
+      const on = this.acceptWord('ON') ? this.parseExpression() : undefined;
+      if (!on && joinType !== 'CROSS' && joinType !== 'INNER') {
+        this.fail();
+      }
+      joins.push({ joinType: on ? joinType : 'CROSS', table, on, span: this.clauseSpan(start) });
+    }
+  }
+
+  private parseOrderItem(): OrderItem {
+    const expression = this.parseExpression();
+    let descending = false;
+    if (this.acceptWord('DESC')) descending = true;
+    else this.acceptWord('ASC');
+    return { expression, descending };
+  }
+
+  // ============================================
+  // Expressions
+  // ============================================
+
+  parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  parseStandaloneExpression(): Expression {
+    const expression = this.parseExpression();
+    if (!this.atEnd()) this.fail();
+    return expression;
+  }
+
+  private binary(operator: BinaryOperator, left: Expression, right: Expression): Expression {
+    return { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptWord('OR')) {
+      left = this.binary('OR', left, this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptWord('AND')) {
+      left = this.binary('AND', left, this.parseNot());
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isWord('NOT')) {
+      const start = this.advance().start;
+      const operand = this.parseNot();
+      return { kind: 'unary', operator: 'NOT', operand, start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    let left = this.parseAdditive();
+
+    while (true) {
+      const operator = this.current.type === 'operator' ? COMPARISON_OPERATORS[this.current.value] : undefined;
+      if (operator) {
+        this.advance();
+        left = this.binary(operator, left, this.parseAdditive());
+        continue;
+      }
+
+      if (this.isWord('IS')) {
+        this.advance();
+        const negated = this.acceptWord('NOT');
+        this.expectWord('NULL');
+        left = { kind: 'isNull', operand: left, negated, start: left.start, end: this.previousEnd() };
+        continue;
+      }
+
+      // [NOT] IN / LIKE / BETWEEN
+      const negated = this.isWord('NOT') && ['IN', 'LIKE', 'BETWEEN'].includes(this.peek().upper);
+      if (negated) this.advance();
+
+      if (this.acceptWord('IN')) {
+        this.expectSymbol('(');
+        const values: Expression[] = [];
+        if (!this.isSymbol(')')) {
+          do {
+            values.push(this.parseExpression());
+          } while (this.acceptSymbol(','));
+        }
+        this.expectSymbol(')');
+        left = { kind: 'in', operand: left, values, negated, start: left.start, end: this.previousEnd() };
+        continue;
+      }
+
+      if (this.acceptWord('LIKE')) {
+        const pattern = this.parseAdditive();
+        left = { kind: 'like', operand: left, pattern, negated, start: left.start, end: pattern.end };
+        continue;
+      }
+
+      if (this.acceptWord('BETWEEN')) {
+        const low = this.parseAdditive();
+        this.expectWord('AND');
+        const high = this.parseAdditive();
+        left = { kind: 'between', operand: left, low, high, negated, start: left.start, end: high.end };
+        continue;
+      }
+
+      if (negated) this.fail();
+      return left;
+    }
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.advance().value as BinaryOperator;
+      left = this.binary(operator, left, this.parseMultiplicative());
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseConcat();
+    while (this.isSymbol('*') || this.isSymbol('/') || this.isSymbol('%')) {
+      const operator = this.advance().value as BinaryOperator;
+      left = this.binary(operator, left, this.parseConcat());
+    }
+    return left;
+  }
+
+  private parseConcat(): Expression {
+    let left = this.parseUnary();
+    while (this.acceptSymbol('||')) {
+      left = this.binary('||', left, this.parseUnary());
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isSymbol('-') || this.isSymbol('+')) {
+      const token = this.advance();
+      const operand = this.parseUnary();
+      // Fold negative number literals so `-5` stays a plain value
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return {
+          kind: 'literal',
+          value: token.value === '-' ? -operand.value : operand.value,
+          start: token.start,
+          end: operand.end,
+        };
+      }
+      return { kind: 'unary', operator: token.value as '-' | '+', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.current;
+
+    if (token.type === 'number') {
+      this.advance();
+      return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+    }
+    if (token.type === 'string') {
+      this.advance();
+      return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+    }
+    if (this.acceptSymbol('(')) {
+      const inner = this.parseExpression();
+      this.expectSymbol(')');
+      // Widen the span so the text shown for it keeps its parentheses
+      return { ...inner, start: token.start, end: this.previousEnd() };
+    }
+
+    if (token.type === 'word') {
+      if (token.upper === 'NULL') {
+        this.advance();
+        return { kind: 'literal', value: null, start: token.start, end: token.end };
+      }
+      if (token.upper === 'TRUE' || token.upper === 'FALSE') {
+        this.advance();
+        return { kind: 'literal', value: token.upper === 'TRUE' ? 1 : 0, start: token.start, end: token.end };
+      }
+      if (token.upper === 'CASE') return this.parseCase();
+      if (this.peek().value === '(' && this.peek().type === 'punctuation') return this.parseFunction();
+    }
+
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED.has(token.upper))) {
+      this.advance();
+      if (this.isSymbol('.')) {
+        this.advance();
+        const name = this.expectName();
+        return { kind: 'column', table: token.value, name, start: token.start, end: this.previousEnd() };
+      }
+      return { kind: 'column', name: token.value, start: token.start, end: token.end };
+    }
+
+    return this.fail();
+  }
+
+  private parseFunction(): Expression {
+    const nameToken = this.advance();
+    this.expectSymbol('(');
+    const distinct = this.acceptWord('DISTINCT');
+    const args: Expression[] = [];
+
+    const starToken = this.current;
+    if (this.acceptSymbol('*')) {
+      args.push({ kind: 'star', start: starToken.start, end: starToken.end });
+    } else if (!this.isSymbol(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.acceptSymbol(','));
+    }
+    this.expectSymbol(')');
+
+    return {
+      kind: 'function',
+      name: nameToken.upper,
+      args,
+      distinct,
+      start: nameToken.start,
+      end: this.previousEnd(),
+    };
+  }
+
+  private parseCase(): Expression {
+    const start = this.expectWord('CASE').start;
+    const operand = this.isWord('WHEN') ? undefined : this.parseExpression();
+    const branches: { when: Expression; then: Expression }[] = [];
+
+    while (this.acceptWord('WHEN')) {
+      const when = this.parseExpression();
+      this.expectWord('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) this.fail();
+
+    const otherwise = this.acceptWord('ELSE') ? this.parseExpression() : undefined;
+    this.expectWord('END');
+    return { kind: 'case', operand, branches, otherwise, start, end: this.previousEnd() };
+  }
+
+  // ============================================
+  // CREATE TABLE
+  // ============================================
+
+  private parseCreateTable(): CreateTableStatement {
+    const start = this.expectWord('CREATE').start;
+    this.expectWord('TABLE');
+    let ifNotExists = false;
+    if (this.acceptWord('IF')) {
+      this.expectWord('NOT');
+      this.expectWord('EXISTS');
+      ifNotExists = true;
+    }
+    const name = this.expectName();
+    this.expectSymbol('(');
+
+    const columns: ColumnDef[] = [];
+    do {
+      if (this.isWord('PRIMARY', 'UNIQUE', 'FOREIGN', 'CONSTRAINT', 'CHECK')) {
+        this.parseTableConstraint(columns);
+      } else {
+        columns.push(this.parseColumnDef());
+      }
+    } while (this.acceptSymbol(','));
+
+    this.expectSymbol(')');
+    return { kind: 'createTable', span: this.clauseSpan(start), name, ifNotExists, columns };
+  }
+
+  private parseColumnDef(): ColumnDef {
+    const column: ColumnDef = {
+      name: this.expectName(),
+      type: this.parseTypeName(),
+      primaryKey: false,
+      notNull: false,
+      unique: false,
+    };
+
+    while (!this.isSymbol(',') && !this.isSymbol(')')) {
+      if (this.acceptWord('CONSTRAINT')) {
+        this.expectName();
+      } else if (this.acceptWord('PRIMARY')) {
+        this.expectWord('KEY');
+        this.acceptWord('ASC', 'DESC');
+        this.acceptWord('AUTOINCREMENT');
+        column.primaryKey = true;
+      } else if (this.acceptWord('NOT')) {
+        this.expectWord('NULL');
+        column.notNull = true;
+      } else if (this.acceptWord('NULL')) {
+        column.notNull = false;
+      } else if (this.acceptWord('UNIQUE')) {
+        column.unique = true;
+      } else if (this.acceptWord('DEFAULT')) {
+        column.defaultValue = this.isSymbol('(') ? this.parsePrimary() : this.parseUnary();
+      } else if (this.acceptWord('REFERENCES')) {
+        column.references = this.parseReference();
+      } else if (this.acceptWord('CHECK')) {
+        this.parsePrimary();
+      } else if (this.acceptWord('AUTOINCREMENT')) {
+        continue;
+      } else {
+        this.fail();
+      }
+    }
+    return column;
+  }
+
+  private parseTypeName(): string {
+    const words: string[] = [];
+    while (this.current.type === 'word' && !this.isWord(
+      'PRIMARY', 'NOT', 'NULL', 'UNIQUE', 'DEFAULT', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'AUTOINCREMENT'
+    )) {
+      words.push(this.advance().value.toUpperCase());
+    }
+    let type = words.join(' ');
+    // VARCHAR(255), DECIMAL(10, 2)
+    if (type && this.isSymbol('(')) {
+      const start = this.advance().start;
+      while (!this.isSymbol(')') && !this.atEnd()) this.advance();
+      this.expectSymbol(')');
+      type += this.sql.slice(start, this.previousEnd()).replace(/\s+/g, '');
+    }
+    return type;
+  }
+
+  private parseReference(): { table: string; column: string } {
+    const table = this.expectName();
+    this.expectSymbol('(');
+    const column = this.expectName();
+    this.expectSymbol(')');
+    // ON DELETE CASCADE and similar actions have no effect here
+    while (this.acceptWord('ON')) {
+      this.expectWord('DELETE', 'UPDATE');
+      while (this.isWord('CASCADE', 'RESTRICT', 'NO', 'ACTION', 'SET', 'NULL', 'DEFAULT')) this.advance();
+    }
+    return { table, column };
+  }
+
+  private parseNameList(): string[] {
+    this.expectSymbol('(');
+    const names: string[] = [];
+    do {
+      names.push(this.expectName());
+      this.acceptWord('ASC', 'DESC');
+    } while (this.acceptSymbol(','));
+    this.expectSymbol(')');
+    return names;
+  }
+
+  private parseTableConstraint(columns: ColumnDef[]): void {
+    if (this.acceptWord('CONSTRAINT')) this.expectName();
+
+    const find = (name: string) => {
+      const column = columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+      if (!column) throw parseError(`no such column: ${name}`, this.previousEnd());
+      return column;
+    };
+
+    if (this.acceptWord('PRIMARY')) {
+      this.expectWord('KEY');
+      for (const name of this.parseNameList()) find(name).primaryKey = true;
+    } else if (this.acceptWord('UNIQUE')) {
+      const names = this.parseNameList();
+      if (names.length === 1) find(names[0]).unique = true;
+    } else if (this.acceptWord('FOREIGN')) {
+      this.expectWord('KEY');
+      const names = this.parseNameList();
+      this.expectWord('REFERENCES');
+      const reference = this.parseReference();
+      if (names.length === 1) find(names[0]).references = reference;
+    } else if (this.acceptWord('CHECK')) {
+      this.parsePrimary();
+    } else {
+      this.fail();
+    }
+  }
+
+  // ============================================
+  // INSERT / DROP / DELETE / UPDATE
+  // ============================================
+
+  private parseInsert(): InsertStatement {
+    const start = this.expectWord('INSERT').start;
+    this.expectWord('INTO');
+    const table = this.expectName();
+    const columns = this.isSymbol('(') ? this.parseNameList() : undefined;
+    this.expectWord('VALUES');
+
+    const rows: Expression[][] = [];
+    do {
+      this.expectSymbol('(');
+      const row: Expression[] = [];
+      do {
+        row.push(this.parseExpression());
+      } while (this.acceptSymbol(','));
+      this.expectSymbol(')');
+      rows.push(row);
+    } while (this.acceptSymbol(','));
+
+    return { kind: 'insert', span: this.clauseSpan(start), table, columns, rows };
+  }
+
+  private parseDropTable(): DropTableStatement {
+    const start = this.expectWord('DROP').start;
+    this.expectWord('TABLE');
+    let ifExists = false;
+    if (this.acceptWord('IF')) {
+      this.expectWord('EXISTS');
+      ifExists = true;
+    }
+    const name = this.expectName();
+    return { kind: 'dropTable', span: this.clauseSpan(start), name, ifExists };
+  }
+
+  private parseDelete(): DeleteStatement {
+    const start = this.expectWord('DELETE').start;
+    this.expectWord('FROM');
+    const table = this.expectName();
+    const where = this.acceptWord('WHERE') ? this.parseExpression() : undefined;
+    return { kind: 'delete', span: this.clauseSpan(start), table, where };
+  }
+
+  private parseUpdate(): UpdateStatement {
+    const start = this.expectWord('UPDATE').start;
+    const table = this.expectName();
+    this.expectWord('SET');
+    const assignments: { column: string; value: Expression }[] = [];
+    do {
+      const column = this.expectName();
+      this.expectSymbol('=');
+      assignments.push({ column, value: this.parseExpression() });
+    } while (this.acceptSymbol(','));
+    const where = this.acceptWord('WHERE') ? this.parseExpression() : undefined;
+    return { kind: 'update', span: this.clauseSpan(start), table, assignments, where };
+  }
+}
+
+// ============================================
+// Entry Points
+// ============================================
+
+/** Parses a `;`-separated script; spans are offsets into `sql` */
+export function parseScript(sql: string): Statement[] {
+  return new Parser(sql).parseScript();
+}
+
+/** Parses a script that must hold exactly one SELECT */
+export function parseSelect(sql: string): SelectStatement {
+  const statements = parseScript(sql);
+  if (statements.length !== 1 || statements[0].kind !== 'select') {
+    const offending = statements.find((s) => s.kind !== 'select') ?? statements[1];
+    throw parseError(
+      'only a single SELECT statement can be visualized',
+      offending?.span.start ?? 0
+    );
+  }
+  return statements[0];
+}
+
+/** Parses a lone expression, e.g. a WHERE condition */
+export function parseExpression(sql: string): Expression {
+  return new Parser(sql).parseStandaloneExpression();
+}
@@ -0,0 +1,80 @@
+/**
+ * Predicate traces - a WHERE/HAVING condition evaluated node by node for one row
+ */
+
+import type { PredicateTrace, TruthValue } from '@/api/types';
+import type { Expression, SqlValue } from './ast';
+import { childExpressions, evaluate, isAggregateCall, truth, type Scope } from './evaluate';
+
+const COMPARISON_OPERATORS = new Set(['OR', 'AND', '=', '!=', '<', '<=', '>', '>=']);
+
+export function truthValue(value: SqlValue): TruthValue {
+  const result = truth(value);
+  return result === null ? 'UNKNOWN' : result ? 'TRUE' : 'FALSE';
+}
+
+function operatorOf(expression: Expression): string | undefined {
+  const not = 'negated' in expression && expression.negated ? 'NOT ' : '';
+  switch (expression.kind) {
+    case 'binary':
+    case 'unary':
+      return expression.operator;
+    case 'isNull':
+      return expression.negated ? 'IS NOT NULL' : 'IS NULL';
+    case 'in':
+      return `${not}IN`;
+    case 'between':
+      return `${not}BETWEEN`;
+    case 'like':
+      return `${not}LIKE`;
+    case 'case':
+      return 'CASE';
+    default:
+      return undefined;
+  }
+}
+
+/** Nodes whose value is a truth value rather than data */
+function isCondition(expression: Expression): boolean {
+  switch (expression.kind) {
+    case 'binary':
+      return COMPARISON_OPERATORS.has(expression.operator);
+    case 'unary':
+      return expression.operator === 'NOT';
+    case 'isNull':
+    case 'in':
+    case 'between':
+    case 'like':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function traceNode(expression: Expression, scope: Scope, source: string, origin: number, isRoot: boolean): PredicateTrace {
+  const value = evaluate(expression, scope);
+  const operator = operatorOf(expression);
+  // Aggregates are leaves: their argument is evaluated per member row, not for this row
+  const children = isAggregateCall(expression)
+    ? []
+    : childExpressions(expression).map((child) => traceNode(child, scope, source, origin, false));
+
+  return {
+    text: source.slice(expression.start, expression.end),
+    start: expression.start - origin,
+    end: expression.end - origin,
+    ...(operator ? { operator } : {}),
+    value,
+    ...(isRoot || isCondition(expression) ? { truth: truthValue(value) } : {}),
+    children,
+  };
+}
+
+/**
+ * Evaluates `condition` and each of its sub-expressions in `scope`. `source`
+ * is the text the condition's spans point into; trace offsets are relative
+ * to the condition itself.
+ */
+export function tracePredicate(condition: Expression, scope: Scope, source: string): PredicateTrace {
+  return traceNode(condition, scope, source, condition.start, true);
+}
@@ -0,0 +1,496 @@
+/**
+ * Runs a SELECT clause by clause, recording the rows at every step
+ */
+
+import type {
+  DataFlowStep,
+  ExecutionStep,
+  ExecutionStepType,
+  QueryVisualization,
+  RowData,
+  RowState,
+  TableData,
+} from '@/api/types';
+import { STEP_DESCRIPTIONS } from '@/api/types';
+import type { Expression, SelectStatement, Span, SqlValue } from './ast';
+import type { Database } from './database';
+import { executionError } from './errors';
+import { compareValues, evaluate, findAggregates, truth, type Scope } from './evaluate';
+
+// ============================================
+// Working Rows
+// ============================================
+
+/** A table in scope: its rows' values are keyed `alias.column` */
+interface Source {
+  alias: string;
+  table: string;
+  columns: string[];
+}
+
+interface WorkingRow {
+  id: string;
+  sourceIds: string[];
+  values: Record<string, SqlValue>;
+  /** Rows folded into this one by GROUP BY */
+  members?: WorkingRow[];
+  /** Projected values once SELECT has run */
+  output?: RowData;
+  included: boolean;
+  excludedReason?: string;
+}
+
+interface RecordedStep {
+  type: ExecutionStepType;
+  span?: Span;
+  columns: string[];
+  rows: RowState[];
+}
+
+const valueKey = (alias: string, column: string) => `${alias}.${column}`;
+
+function sourceValues(source: Source, row: RowData | null): Record<string, SqlValue> {
+  return Object.fromEntries(
+    source.columns.map((column) => [valueKey(source.alias, column), row ? (row[column] as SqlValue) : null])
+  );
+}
+
+function findSources(sources: Source[], table: string | undefined, name: string): { source: Source; column: string }[] {
+  const lowerName = name.toLowerCase();
+  return sources
+    .filter((source) => !table ||
+      source.alias.toLowerCase() === table.toLowerCase() ||
+      (source.alias === source.table && source.table.toLowerCase() === table.toLowerCase()))
+    .flatMap((source) => {
+      const column = source.columns.find((c) => c.toLowerCase() === lowerName);
+      return column ? [{ source, column }] : [];
+    });
+}
+
+function resolveSourceColumn(sources: Source[], table: string | undefined, name: string): { source: Source; column: string } {
+  const matches = findSources(sources, table, name);
+  if (matches.length > 1) throw executionError(`ambiguous column name: ${name}`);
+  if (matches.length === 0) throw executionError(`no such column: ${table ? `${table}.` : ''}${name}`);
+  return matches[0];
+}
+
+interface ScopeOptions {
+  sources: Source[];
+  row: WorkingRow;
+  /** SELECT aliases usable from WHERE/HAVING when no column has the name */
+  aliases?: Map<string, Expression>;
+  /** Projected values ORDER BY can refer to by output name */
+  outputs?: RowData;
+}
+
+function makeScope({ sources, row, aliases, outputs }: ScopeOptions): Scope {
+  const scope: Scope = {
+    column: (table, name) => {
+      if (!table && outputs) {
+        const outputName = Object.keys(outputs).find((key) => key.toLowerCase() === name.toLowerCase());
+        if (outputName !== undefined) return outputs[outputName] as SqlValue;
+      }
+      const matches = findSources(sources, table, name);
+      if (matches.length === 1) {
+        return row.values[valueKey(matches[0].source.alias, matches[0].column)] ?? null;
+      }
+      const alias = !table && matches.length === 0 ? aliases?.get(name.toLowerCase()) : undefined;
+      if (alias) return evaluate(alias, { ...scope, column: (t, n) => resolveValue(sources, row, t, n) });
+      return resolveValue(sources, row, table, name);
+    },
+    group: row.members?.map((member) => makeScope({ sources, row: member })),
+  };
+  return scope;
+}
+
+function resolveValue(sources: Source[], row: WorkingRow, table: string | undefined, name: string): SqlValue {
+  const { source, column } = resolveSourceColumn(sources, table, name);
+  return row.values[valueKey(source.alias, column)] ?? null;
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+interface Pipeline {
+  steps: RecordedStep[];
+  result: TableData;
+}
+
+function text(sql: string, span: Span | undefined): string {
+  return span ? sql.slice(span.start, span.end) : '';
+}
+
+function toRowState(row: WorkingRow, data: RowData): RowState {
+  return {
+    data,
+    included: row.included,
+    ...(row.excludedReason ? { excludedReason: row.excludedReason } : {}),
+    rowId: row.id,
+    sourceRowIds: row.sourceIds,
+  };
+}
+
+function exclude(row: WorkingRow, reason: string): WorkingRow {
+  return { ...row, included: false, excludedReason: reason };
+}
+
+function constantInteger(expression: Expression, clause: string): number {
+  const value = evaluate(expression, { column: () => { throw executionError(`${clause} must be a constant`); } });
+  if (value === null || !Number.isInteger(Number(value))) {
+    throw executionError(`datatype mismatch in ${clause}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Runs `statement` against `db` in logical clause order. `sql` is the text the
+ * statement was parsed from, used for clause text and exclusion reasons.
+ */
+function runPipeline(db: Database, statement: SelectStatement, sql: string): Pipeline {
+  const steps: RecordedStep[] = [];
+  let sources: Source[] = [];
+  let rows: WorkingRow[];
+
+  // Columns are shown bare while one table is in scope, `alias.column` after a join
+  const sourceColumns = () => sources.flatMap((source) =>
+    source.columns.map((column) => (sources.length > 1 ? valueKey(source.alias, column) : column))
+  );
+  const sourceData = (row: WorkingRow): RowData => {
+    const data: RowData = {};
+    const names = sourceColumns();
+    let index = 0;
+    for (const source of sources) {
+      for (const column of source.columns) {
+        data[names[index++]] = row.values[valueKey(source.alias, column)] ?? null;
+      }
+    }
+    return data;
+  };
+  const record = (type: ExecutionStepType, span: Span | undefined, columns: string[], data: (row: WorkingRow) => RowData) => {
+    steps.push({ type, span, columns, rows: rows.map((row) => toRowState(row, data(row))) });
+  };
+
+  // FROM
+  if (statement.from) {
+    const table = db.table(statement.from.table);
+    const source = { alias: statement.from.alias, table: table.name, columns: table.columns.map((c) => c.name) };
+    sources = [source];
+    rows = table.rows.map((row, index) => ({
+      id: `r${index + 1}`,
+      sourceIds: [],
+      values: sourceValues(source, row),
+      included: true,
+    }));
+    record('FROM', statement.clauses.from, sourceColumns(), sourceData);
+  } else {
+    rows = [{ id: 'r1', sourceIds: [], values: {}, included: true }];
+  }
+
+  // JOIN
+  for (const join of statement.joins) {
+    const table = db.table(join.table.table);
+    const right: Source = { alias: join.table.alias, table: table.name, columns: table.columns.map((c) => c.name) };
+    if (sources.some((source) => source.alias.toLowerCase() === right.alias.toLowerCase())) {
+      throw executionError(`ambiguous table alias: ${right.alias}`, { offset: join.span.start });
+    }
+    const combined = [...sources, right];
+    const keepLeft = join.joinType === 'LEFT' || join.joinType === 'FULL';
+    const keepRight = join.joinType === 'RIGHT' || join.joinType === 'FULL';
+    const matchedRight = new Set<number>();
+    const output: WorkingRow[] = [];
+
+    for (const left of rows.filter((row) => row.included)) {
+      let matches = 0;
+      table.rows.forEach((rightRow, rightIndex) => {
+        const candidate: WorkingRow = {
+          id: `${left.id}.${matches + 1}`,
+          sourceIds: [left.id],
+          values: { ...left.values, ...sourceValues(right, rightRow) },
+          included: true,
+        };
+        if (join.on && truth(evaluate(join.on, makeScope({ sources: combined, row: candidate }))) !== true) return;
+        matches++;
+        matchedRight.add(rightIndex);
+        output.push(candidate);
+      });
+
+      if (matches === 0) {
+        const padded: WorkingRow = {
+          id: `${left.id}.1`,
+          sourceIds: [left.id],
+          values: { ...left.values, ...sourceValues(right, null) },
+          included: true,
+        };
+        output.push(keepLeft ? padded : exclude(padded, `No matching row in ${table.name}`));
+      }
+    }
+
+    if (keepRight) {
+      table.rows.forEach((rightRow, rightIndex) => {
+        if (matchedRight.has(rightIndex)) return;
+        output.push({
+          id: `${right.alias}.r${rightIndex + 1}`,
+          sourceIds: [],
+          values: {
+            ...Object.assign({}, ...sources.map((source) => sourceValues(source, null))),
+            ...sourceValues(right, rightRow),
+          },
+          included: true,
+        });
+      });
+    }
+
+    sources = combined;
+    rows = output;
+    record('JOIN', join.span, sourceColumns(), sourceData);
+  }
+
+  const aliases = new Map(
+    statement.columns
+      .filter((item) => item.alias)
+      .map((item) => [item.alias!.toLowerCase(), item.expression])
+  );
+
+  // WHERE
+  if (statement.where) {
+    const where = statement.where;
+    const condition = text(sql, where);
+    rows = rows.map((row) => {
+      if (!row.included) return row;
+      const result = truth(evaluate(where, makeScope({ sources, row, aliases })));
+      if (result === true) return row;
+      return exclude(row, `Does not match: ${condition}${result === null ? ' (evaluates to NULL)' : ''}`);
+    });
+    record('WHERE', statement.clauses.where, sourceColumns(), sourceData);
+  }
+
+  // GROUP BY
+  const aggregates = [
+    ...statement.columns.flatMap((item) => findAggregates(item.expression)),
+    ...(statement.having ? findAggregates(statement.having) : []),
+    ...statement.orderBy.flatMap((item) => findAggregates(item.expression)),
+  ].filter((aggregate, index, all) =>
+    all.findIndex((other) => text(sql, other).toLowerCase() === text(sql, aggregate).toLowerCase()) === index
+  );
+  const grouped = statement.groupBy.length > 0 || aggregates.length > 0 || !!statement.having;
+
+  let groupColumns: string[] = [];
+  const groupData = (row: WorkingRow): RowData => {
+    const scope = makeScope({ sources, row });
+    const data: RowData = {};
+    statement.groupBy.forEach((expression, index) => {
+      data[groupColumns[index]] = evaluate(expression, scope);
+    });
+    aggregates.forEach((aggregate) => {
+      data[text(sql, aggregate)] = evaluate(aggregate, scope);
+    });
+    return data;
+  };
+
+  if (grouped) {
+    const members = rows.filter((row) => row.included);
+    const buckets = new Map<string, WorkingRow[]>();
+
+    if (statement.groupBy.length > 0) {
+      for (const row of members) {
+        const scope = makeScope({ sources, row });
+        const key = JSON.stringify(statement.groupBy.map((expression) => evaluate(expression, scope)));
+        buckets.set(key, [...(buckets.get(key) ?? []), row]);
+      }
+    } else {
+      // Aggregates without GROUP BY fold every row into a single group
+      buckets.set('', members);
+    }
+
+    rows = [...buckets.values()].map((groupMembers, index) => ({
+      id: `g${index + 1}`,
+      sourceIds: groupMembers.map((member) => member.id),
+      values: groupMembers[0]?.values ?? Object.assign({}, ...sources.map((source) => sourceValues(source, null))),
+      members: groupMembers,
+      included: true,
+    }));
+
+    groupColumns = statement.groupBy.map((expression) => {
+      if (expression.kind !== 'column') return text(sql, expression);
+      const { source, column } = resolveSourceColumn(sources, expression.table, expression.name);
+      return sources.length > 1 ? valueKey(source.alias, column) : column;
+    });
+
+    if (statement.groupBy.length > 0) {
+      record('GROUP BY', statement.clauses.groupBy, [...groupColumns, ...aggregates.map((a) => text(sql, a))], groupData);
+    }
+  }
+
+  // HAVING
+  if (statement.having) {
+    const having = statement.having;
+    const condition = text(sql, having);
+    rows = rows.map((row) => {
+      const result = truth(evaluate(having, makeScope({ sources, row, aliases })));
+      if (result === true) return row;
+      return exclude(row, `Group does not match: ${condition}${result === null ? ' (evaluates to NULL)' : ''}`);
+    });
+    record('HAVING', statement.clauses.having, [...groupColumns, ...aggregates.map((a) => text(sql, a))], groupData);
+  }
+
+  // SELECT
+  const outputColumns: string[] = [];
+  const projections: { name: string; value: (scope: Scope, row: WorkingRow) => SqlValue }[] = [];
+  const uniqueName = (name: string, fallback: string) => {
+    let candidate = outputColumns.some((c) => c.toLowerCase() === name.toLowerCase()) ? fallback : name;
+    for (let n = 1; outputColumns.some((c) => c.toLowerCase() === candidate.toLowerCase()); n++) {
+      candidate = `${name}:${n}`;
+    }
+    outputColumns.push(candidate);
+    return candidate;
+  };
+
+  for (const item of statement.columns) {
+    const expression = item.expression;
+    if (expression.kind === 'star') {
+      const starSources = expression.table
+        ? sources.filter((s) => s.alias.toLowerCase() === expression.table!.toLowerCase())
+        : sources;
+      if (starSources.length === 0) {
+        throw executionError(`no such table: ${expression.table ?? ''}`, { offset: expression.start });
+      }
+      for (const source of starSources) {
+        for (const column of source.columns) {
+          const name = uniqueName(sources.length > 1 ? valueKey(source.alias, column) : column, valueKey(source.alias, column));
+          projections.push({ name, value: (_scope, row) => row.values[valueKey(source.alias, column)] ?? null });
+        }
+      }
+      continue;
+    }
+    const written = text(sql, expression);
+    const name = uniqueName(item.alias ?? (expression.kind === 'column' ? expression.name : written), written);
+    projections.push({ name, value: (scope) => evaluate(expression, scope) });
+  }
+
+  rows = rows.map((row) => {
+    const scope = makeScope({ sources, row });
+    const output: RowData = {};
+    for (const projection of projections) {
+      output[projection.name] = projection.value(scope, row);
+    }
+    return { ...row, output };
+  });
+  const outputData = (row: WorkingRow): RowData => row.output ?? {};
+  record('SELECT', statement.clauses.select, outputColumns, outputData);
+
+  // DISTINCT
+  if (statement.distinct) {
+    const seen = new Set<string>();
+    rows = rows.map((row) => {
+      if (!row.included) return row;
+      const key = JSON.stringify(outputColumns.map((column) => row.output?.[column] ?? null));
+      if (seen.has(key)) return exclude(row, 'Duplicate row');
+      seen.add(key);
+      return row;
+    });
+    record('DISTINCT', undefined, outputColumns, outputData);
+  }
+
+  // ORDER BY
+  if (statement.orderBy.length > 0) {
+    const keyed = rows.filter((row) => row.included).map((row) => {
+      const scope = makeScope({ sources, row, outputs: row.output });
+      const keys = statement.orderBy.map(({ expression }) => {
+        // ORDER BY 2 refers to the second output column
+        if (expression.kind === 'literal' && typeof expression.value === 'number') {
+          const column = outputColumns[expression.value - 1];
+          if (!column) throw executionError(`ORDER BY term out of range - should be between 1 and ${outputColumns.length}`);
+          return (row.output?.[column] ?? null) as SqlValue;
+        }
+        return evaluate(expression, scope);
+      });
+      return { row, keys };
+    });
+
+    keyed.sort((a, b) => {
+      for (let i = 0; i < statement.orderBy.length; i++) {
+        const order = compareValues(a.keys[i], b.keys[i]);
+        if (order !== 0) return statement.orderBy[i].descending ? -order : order;
+      }
+      return 0;
+    });
+    rows = [...keyed.map(({ row }) => row), ...rows.filter((row) => !row.included)];
+    record('ORDER BY', statement.clauses.orderBy, outputColumns, outputData);
+  }
+
+  // LIMIT / OFFSET
+  const offset = statement.offset ? constantInteger(statement.offset, 'OFFSET') : 0;
+  if (statement.limit) {
+    const limit = constantInteger(statement.limit, 'LIMIT');
+    let position = 0;
+    rows = rows.map((row) => {
+      if (!row.included) return row;
+      position++;
+      return limit >= 0 && position > offset + limit ? exclude(row, `Exceeds LIMIT ${limit}`) : row;
+    });
+    record('LIMIT', statement.clauses.limit, outputColumns, outputData);
+  }
+  if (statement.offset) {
+    let position = 0;
+    rows = rows.map((row) => {
+      if (!row.included) return row;
+      position++;
+      return position <= offset ? exclude(row, `Skipped by OFFSET ${offset}`) : row;
+    });
+    record('OFFSET', statement.clauses.offset, outputColumns, outputData);
+  }
+
+  return {
+    steps,
+    result: {
+      tableName: 'Query Result',
+      columns: outputColumns,
+      rows: rows.filter((row) => row.included).map(outputData),
+    },
+  };
+}
+
+// ============================================
+// Entry Points
+// ============================================
+
+/** Final rows of a SELECT, for plain execution */
+export function runSelect(db: Database, statement: SelectStatement, sql: string): TableData {
+  return runPipeline(db, statement, sql).result;
+}
+
+/** Every clause of a SELECT with the rows it saw, in the backend's response shape */
+export function visualizeSelect(db: Database, statement: SelectStatement, sql: string): QueryVisualization {
+  const { steps, result } = runPipeline(db, statement, sql);
+
+  const executionSteps: ExecutionStep[] = steps.map((step, index) => ({
+    order: index + 1,
+    type: step.type,
+    clause: step.span ? text(sql, step.span) : step.type,
+    description: STEP_DESCRIPTIONS[step.type],
+  }));
+
+  const dataFlow: DataFlowStep[] = steps.map((step, index) => {
+    const includedRows = step.rows.filter((row) => row.included).length;
+    return {
+      stepOrder: index + 1,
+      stepType: step.type,
+      rows: step.rows,
+      columns: step.columns,
+      description: STEP_DESCRIPTIONS[step.type],
+      stats: {
+        totalRows: step.rows.length,
+        includedRows,
+        excludedRows: step.rows.length - includedRows,
+      },
+    };
+  });
+
+  return {
+    originalQuery: sql,
+    executionSteps,
+    dataFlow,
+    finalResult: result,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Maps backend SQL errors onto source ranges for editor markers
+ */
+
+import { ApiClientError } from '@/api/client';
+import { splitSqlStatements } from './sqlStatements';
+
+// ============================================
+// Types
+// ============================================
+
+/** A SQL error the editor can point at, tied to the script that produced it */
+export interface SqlErrorInfo {
+  code: string;
+  message: string;
+  details?: unknown;
+  sql: string;
+}
+
+/** Character offsets into the script, end exclusive */
+export interface SqlErrorRange {
+  start: number;
+  end: number;
+  message: string;
+}
+
+const LOCATABLE_CODES = new Set(['SQL_PARSE_ERROR', 'SQL_EXECUTION_ERROR']);
+
+/**
+ * Returns the error info for SQL errors the editor can mark, or null for
+ * anything else (network failures, missing sessions...).
+ */
+export function toSqlErrorInfo(error: unknown, sql: string): SqlErrorInfo | null {
+  if (!(error instanceof ApiClientError) || !LOCATABLE_CODES.has(error.code)) {
+    return null;
+  }
+  return { code: error.code, message: error.message, details: error.details, sql };
+}
+
+// ============================================
+// Locating
+// ============================================
+
+function readNumber(details: Record<string, unknown>, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = details[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && /^\d+$/.test(value)) return Number(value);
+  }
+  return undefined;
+}
+
+function readString(details: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = details[key];
+    if (typeof value === 'string' && value.trim()) return value;
+  }
+  return undefined;
+}
+
+function lineColumnToOffset(sql: string, line: number, column: number): number | null {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const lineEnd = sql.indexOf('\n', offset);
+    if (lineEnd === -1) return null;
+    offset = lineEnd + 1;
+  }
+  return Math.min(offset + Math.max(column - 1, 0), sql.length);
+}
+
+// Extends a point to the end of the identifier/number/operator it sits on
+function tokenRangeAt(sql: string, offset: number): { start: number; end: number } {
+  const match = /^(?:[\w.]+|'[^']*'?|\S)/.exec(sql.slice(offset));
+  return { start: offset, end: offset + (match ? match[0].length : 1) };
+}
+
+function findToken(sql: string, token: string, from: number, to: number): number {
+  const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const prefix = /^\w/.test(token) ? '\\b' : '';
+  const suffix = /\w$/.test(token) ? '\\b' : '';
+  const pattern = new RegExp(`${prefix}${escaped}${suffix}`, 'i');
+  const match = pattern.exec(sql.slice(from, to));
+  return match ? from + match.index : -1;
+}
+
+/**
+ * Works out where in `sql` an error applies. Uses, in order: an explicit
+ * line/column or character offset from `details`, the offending token
+ * (`details.token` or SQLite's `near "..."`), and finally the failing
+ * statement by its index in the batch.
+ */
+export function locateSqlError(error: SqlErrorInfo): SqlErrorRange | null {
+  const { sql, message } = error;
+  const details = (typeof error.details === 'object' && error.details !== null
+    ? error.details
+    : {}) as Record<string, unknown>;
+  const statements = splitSqlStatements(sql);
+  if (statements.length === 0) return null;
+
+  // 1. Explicit position
+  const line = readNumber(details, 'line', 'lineNumber');
+  if (line !== undefined) {
+    const offset = lineColumnToOffset(sql, line, readNumber(details, 'column', 'col') ?? 1);
+    if (offset !== null) return { ...tokenRangeAt(sql, offset), message };
+  }
+
+  const position = readNumber(details, 'position');
+  const rawOffset = readNumber(details, 'offset');
+  const offset = position !== undefined ? position - 1 : rawOffset;
+  if (offset !== undefined && offset >= 0 && offset < sql.length) {
+    return { ...tokenRangeAt(sql, offset), message };
+  }
+
+  // 2. Failing statement, 0-based in details or 1-based in the message
+  const messageIndex = /statement\s*#?\s*(\d+)/i.exec(message);
+  const statementIndex =
+    readNumber(details, 'statementIndex', 'index') ??
+    (messageIndex ? Number(messageIndex[1]) - 1 : undefined);
+  const failedText = readString(details, 'statement', 'sql', 'query');
+  const statement =
+    (statementIndex !== undefined ? statements[statementIndex] : undefined) ??
+    (failedText
+      ? statements.find((s) => s.text.trim() === failedText.trim().replace(/;$/, ''))
+      : undefined) ??
+    (statements.length === 1 ? statements[0] : undefined);
+
+  // 3. Offending token, searched within the failing statement when known
+  const token = readString(details, 'token', 'near') ?? /near\s+"([^"]+)"/i.exec(message)?.[1];
+  if (token) {
+    const from = statement?.start ?? 0;
+    const to = statement?.end ?? sql.length;
+    const tokenStart = findToken(sql, token, from, to);
+    if (tokenStart !== -1) {
+      return { start: tokenStart, end: tokenStart + token.length, message };
+    }
+  }
+
+  if (statement) {
+    return { start: statement.start, end: statement.end, message };
+  }
+
+  return null;
+}
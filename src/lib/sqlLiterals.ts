@@ -0,0 +1,49 @@
+/**
+ * Writing values and names back out as SQL text
+ */
+
+// Words that cannot be used as bare identifiers
+const KEYWORDS = new Set([
+  'ALL', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'CREATE', 'CROSS', 'DEFAULT', 'DELETE',
+  'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXISTS', 'FOREIGN', 'FROM', 'FULL', 'GROUP', 'HAVING',
+  'IN', 'INNER', 'INSERT', 'INTO', 'IS', 'JOIN', 'KEY', 'LEFT', 'LIKE', 'LIMIT', 'NOT', 'NULL',
+  'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'PRIMARY', 'REFERENCES', 'RIGHT', 'SELECT', 'SET', 'TABLE',
+  'THEN', 'UNION', 'UNIQUE', 'UPDATE', 'VALUES', 'WHEN', 'WHERE',
+]);
+
+/** A table or column name, double-quoted only when it has to be */
+export function quoteIdentifier(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORDS.has(name.toUpperCase())) {
+    return name;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** A row value as a SQL literal: NULL, a number, or a single-quoted string */
+export function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/** `INSERT INTO` statements reproducing the rows, `batchSize` rows per statement */
+export function insertStatements(
+  tableName: string,
+  columns: string[],
+  rows: Record<string, unknown>[],
+  batchSize = 100
+): string[] {
+  const statements: string[] = [];
+  const columnList = columns.map(quoteIdentifier).join(', ');
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const values = rows
+      .slice(start, start + batchSize)
+      .map((row) => `  (${columns.map((column) => sqlLiteral(row[column])).join(', ')})`)
+      .join(',\n');
+    statements.push(`INSERT INTO ${quoteIdentifier(tableName)} (${columnList}) VALUES\n${values};`);
+  }
+  return statements;
+}
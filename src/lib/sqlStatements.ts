@@ -0,0 +1,92 @@
+/**
+ * SQL script helpers - statement splitting aware of strings and comments
+ */
+
+export interface SqlStatement {
+  /** Statement text without leading comments/whitespace or the trailing semicolon */
+  text: string;
+  /** Offset of the first significant character in the script */
+  start: number;
+  /** Offset just past the last significant character in the script */
+  end: number;
+}
+
+/**
+ * Splits a script into statements on top-level semicolons. Semicolons inside
+ * quoted strings, quoted identifiers and comments are ignored; chunks holding
+ * only comments or whitespace are dropped, so indexes match what the backend
+ * reports for a batch.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let firstSignificant = -1;
+  let lastSignificant = -1;
+  let i = 0;
+
+  const pushChunk = () => {
+    if (firstSignificant !== -1) {
+      statements.push({
+        text: sql.slice(firstSignificant, lastSignificant + 1),
+        start: firstSignificant,
+        end: lastSignificant + 1,
+      });
+    }
+    firstSignificant = -1;
+    lastSignificant = -1;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const lineEnd = sql.indexOf('\n', i);
+      i = lineEnd === -1 ? sql.length : lineEnd + 1;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const commentEnd = sql.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? sql.length : commentEnd + 2;
+      continue;
+    }
+
+    if (char === ';') {
+      pushChunk();
+      i += 1;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (firstSignificant === -1) firstSignificant = i;
+
+    if (char === "'" || char === '"' || char === '`') {
+      // Doubled quotes escape the quote character inside the literal
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j += 1;
+      }
+      lastSignificant = Math.min(j, sql.length - 1);
+      i = j + 1;
+      continue;
+    }
+
+    lastSignificant = i;
+    i += 1;
+  }
+
+  pushChunk();
+
+  return statements;
+}
@@ -0,0 +1,110 @@
+/**
+ * Table export - a table's rows as CSV, TSV, JSON, Markdown or INSERT statements
+ */
+
+import { insertStatements } from './sqlLiterals';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'sql';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+/** Keyed by format, in the order they are offered */
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  csv: { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  tsv: { id: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  json: { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  sql: { id: 'sql', label: 'INSERT INTO', extension: 'sql', mimeType: 'application/sql' },
+};
+
+export interface ExportTable {
+  /** Used as the INSERT target and in the file name */
+  name: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+function isNull(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+/** A non-NULL value as plain text; objects (JSON columns) are serialized */
+function plainText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// NULL is an empty field, an empty string is `""` - the convention of COPY ... CSV
+function csvField(value: unknown): string {
+  if (isNull(value)) return '';
+  const text = plainText(value);
+  return text === '' || /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+// NULL is `\N` and control characters are backslash-escaped, as in COPY ... TEXT
+function tsvField(value: unknown): string {
+  if (isNull(value)) return '\\N';
+  return plainText(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+function markdownCell(value: unknown): string {
+  if (isNull(value)) return '*NULL*';
+  return plainText(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\*/g, '\\*')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function delimited(table: ExportTable, separator: string, field: (value: unknown) => string): string {
+  const header = table.columns.map(field).join(separator);
+  const lines = table.rows.map((row) => table.columns.map((column) => field(row[column])).join(separator));
+  return [header, ...lines].join('\n') + '\n';
+}
+
+function markdown(table: ExportTable): string {
+  const header = `| ${table.columns.map(markdownCell).join(' | ')} |`;
+  const divider = `| ${table.columns.map(() => '---').join(' | ')} |`;
+  const lines = table.rows.map((row) => `| ${table.columns.map((column) => markdownCell(row[column])).join(' | ')} |`);
+  return [header, divider, ...lines].join('\n') + '\n';
+}
+
+/** Rows keep only the listed columns, in order; missing values become `null` */
+function json(table: ExportTable): string {
+  const rows = table.rows.map((row) =>
+    Object.fromEntries(table.columns.map((column) => [column, row[column] ?? null]))
+  );
+  return JSON.stringify(rows, null, 2) + '\n';
+}
+
+export function formatTable(format: ExportFormat, table: ExportTable): string {
+  switch (format) {
+    case 'csv':
+      return delimited(table, ',', csvField);
+    case 'tsv':
+      return delimited(table, '\t', tsvField);
+    case 'json':
+      return json(table);
+    case 'markdown':
+      return markdown(table);
+    case 'sql':
+      return table.rows.length === 0
+        ? `-- ${table.name}: không có dòng nào\n`
+        : insertStatements(table.name, table.columns, table.rows).join('\n\n') + '\n';
+  }
+}
+
+export function exportFileName(table: ExportTable, format: ExportFormat): string {
+  const base = table.name.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '') || 'table';
+  return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
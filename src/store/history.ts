@@ -0,0 +1,92 @@
+/**
+ * Query History Store - every setup script and query that was run, kept in localStorage
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { guardedStorage } from './storage';
+
+// ============================================
+// Types
+// ============================================
+
+export type HistoryKind = 'setup' | 'query';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  sql: string;
+  /** ISO timestamp of when the run finished */
+  executedAt: string;
+  success: boolean;
+  /** ExecuteSQLResponse messages on success, the error message on failure */
+  messages: string[];
+  /** Rows in the final result, null when the run produced no result set */
+  rowCount: number | null;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'executedAt'>;
+
+interface HistoryState {
+  entries: HistoryEntry[];
+
+  addEntry: (entry: NewHistoryEntry) => void;
+  removeEntry: (id: string) => void;
+  clearHistory: (kind: HistoryKind) => void;
+}
+
+// Oldest entries are dropped past this, per kind, to keep localStorage small
+const MAX_ENTRIES_PER_KIND = 100;
+
+// ============================================
+// Store
+// ============================================
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      addEntry: (entry) => {
+        const added: HistoryEntry = {
+          ...entry,
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          executedAt: new Date().toISOString(),
+        };
+        const sameKind = get().entries.filter((e) => e.kind === entry.kind);
+        const dropped = new Set(sameKind.slice(MAX_ENTRIES_PER_KIND - 1).map((e) => e.id));
+        set({ entries: [added, ...get().entries.filter((e) => !dropped.has(e.id))] });
+      },
+
+      removeEntry: (id) => set({ entries: get().entries.filter((e) => e.id !== id) }),
+
+      clearHistory: (kind) => set({ entries: get().entries.filter((e) => e.kind !== kind) }),
+    }),
+    {
+      name: 'sql-viz-history',
+      version: 1,
+      storage: createJSONStorage(() => guardedStorage),
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
+
+// ============================================
+// Recording
+// ============================================
+
+/** Records a run from outside React, e.g. from mutation callbacks */
+export function recordHistory(entry: NewHistoryEntry): void {
+  useHistoryStore.getState().addEntry(entry);
+}
+
+/** Newest first; matches the SQL text and messages, case-insensitively */
+export function searchHistory(entries: HistoryEntry[], kind: HistoryKind, search: string): HistoryEntry[] {
+  const needle = search.trim().toLowerCase();
+  return entries.filter((entry) =>
+    entry.kind === kind &&
+    (!needle ||
+      entry.sql.toLowerCase().includes(needle) ||
+      entry.messages.some((message) => message.toLowerCase().includes(needle)))
+  );
+}
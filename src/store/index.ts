@@ -3,6 +3,7 @@
  */
 
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import type {
   TableSchema,
   TableData,
@@ -11,12 +12,38 @@ import type {
   ExecutionStep,
   DataFlowStep,
 } from '@/api/types';
+import type { SqlErrorInfo } from '@/lib/sqlErrors';
+import { guardedStorage } from './storage';
 
 // ============================================
 // App View State
 // ============================================
 
-export type AppView = 'setup' | 'schema' | 'query' | 'visualization';
+export type AppView = 'setup' | 'schema' | 'query' | 'visualization' | 'compare';
+
+export type CompareSide = 'left' | 'right';
+
+/** Two visualizations run against the same tables, shown side by side */
+export interface QueryComparison {
+  left: QueryVisualization;
+  right: QueryVisualization;
+}
+
+/**
+ * One editor tab in the query view. The active tab's SQL, visualization and
+ * step live in `querySQL`, `visualization` and `currentStepIndex`; its entry
+ * here is only brought up to date when switching away or persisting. Only
+ * `id`, `name`, `sql` and `currentStepIndex` are persisted.
+ */
+export interface QueryTab {
+  id: string;
+  name: string;
+  sql: string;
+  visualization: QueryVisualization | null;
+  currentStepIndex: number;
+  /** Restored from storage; `sql` is run again the first time the tab is active */
+  needsRerun?: boolean;
+}
 
 interface AppState {
   // Session
@@ -40,10 +67,24 @@ interface AppState {
   visualization: QueryVisualization | null;
   currentStepIndex: number;
 
+  // Query Tabs
+  queryTabs: QueryTab[];
+  activeTabId: string;
+
+  // Comparison
+  compareQueries: Record<CompareSide, string>;
+  comparison: QueryComparison | null;
+
+  // Playback
+  isPlaying: boolean;
+  playbackSpeed: number;
+  playbackLoop: boolean;
+
   // UI State
   isExecuting: boolean;
   executionError: string | null;
   executionMessage: string | null;
+  sqlError: SqlErrorInfo | null;
 
   // Actions
   setSessionId: (id: string | null) => void;
@@ -64,9 +105,27 @@ interface AppState {
   nextStep: () => void;
   prevStep: () => void;
   
+  addQueryTab: () => void;
+  switchQueryTab: (id: string) => void;
+  closeQueryTab: (id: string) => void;
+  renameQueryTab: (id: string, name: string) => void;
+  reorderQueryTabs: (ids: string[]) => void;
+  /** Replaces every tab; `visualization` goes to the tab at `activeIndex` */
+  loadQueryTabs: (tabs: { name: string; sql: string }[], activeIndex: number, visualization?: QueryVisualization | null) => void;
+  restoreTabVisualization: (id: string, visualization: QueryVisualization | null) => void;
+  
+  setCompareQuery: (side: CompareSide, sql: string) => void;
+  setComparison: (comparison: QueryComparison | null) => void;
+  
+  setIsPlaying: (playing: boolean) => void;
+  togglePlayback: () => void;
+  setPlaybackSpeed: (speed: number) => void;
+  setPlaybackLoop: (loop: boolean) => void;
+  
   setIsExecuting: (executing: boolean) => void;
   setExecutionError: (error: string | null) => void;
   setExecutionMessage: (message: string | null) => void;
+  setSqlError: (error: SqlErrorInfo | null) => void;
   
   reset: () => void;
 }
@@ -109,7 +168,129 @@ WHERE u.age > 25
 ORDER BY u.age DESC;
 `;
 
-export const useAppStore = create<AppState>()((set, get) => ({
+const initialCompareSQL = `-- Query thứ hai để so sánh với query bên trái
+
+SELECT u.name, u.age, d.name as department
+FROM users u
+LEFT JOIN departments d ON u.department_id = d.id
+WHERE u.age >= 25
+ORDER BY u.age DESC;
+`;
+
+const initialTab: QueryTab = {
+  id: 'tab-1',
+  name: 'Query 1',
+  sql: initialQuerySQL,
+  visualization: null,
+  currentStepIndex: 0,
+};
+
+function newTabId(): string {
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Tabs with the active one updated from the live editor and visualization state */
+function snapshotTabs(state: AppState): QueryTab[] {
+  return state.queryTabs.map((tab) =>
+    tab.id === state.activeTabId
+      ? { ...tab, sql: state.querySQL, visualization: state.visualization, currentStepIndex: state.currentStepIndex }
+      : tab
+  );
+}
+
+/** Live state for a tab being brought to the front */
+function activateTab(tab: QueryTab) {
+  return {
+    activeTabId: tab.id,
+    querySQL: tab.sql,
+    visualization: tab.visualization,
+    currentStepIndex: tab.currentStepIndex,
+    isPlaying: false,
+    executionError: null,
+    sqlError: null,
+  };
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+// Bumped whenever the persisted shape changes, together with a migration below
+const PERSIST_VERSION = 5;
+
+/** A saved tab; its visualization is rebuilt by running `sql` again */
+type PersistedTab = Pick<QueryTab, 'id' | 'name' | 'sql' | 'currentStepIndex'>;
+
+/** Only text and tab metadata; tables are fetched from the session again on load */
+type PersistedState = Pick<AppState, 'currentView' | 'setupSQL' | 'activeTabId'> & { queryTabs: PersistedTab[] };
+
+/** Each entry upgrades state saved by that version to the next one */
+const migrations: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 kept only the query tabs
+  1: (state) => ({
+    ...state,
+    currentView: 'setup',
+    setupSQL: initialSetupSQL,
+  }),
+  // v2 kept every tab's visualization
+  2: (state) => ({
+    ...state,
+    queryTabs: ((state.queryTabs ?? []) as PersistedTab[]).map(({ id, name, sql }) => ({ id, name, sql })),
+  }),
+  // v3 kept the session's tables and their rows
+  3: (state) => {
+    const next = { ...state };
+    delete next.tables;
+    delete next.tableData;
+    delete next.erDiagram;
+    return next;
+  },
+  // v4 did not keep the step each tab was on
+  4: (state) => ({
+    ...state,
+    queryTabs: ((state.queryTabs ?? []) as PersistedTab[]).map((tab) => ({ ...tab, currentStepIndex: 0 })),
+  }),
+};
+
+function migratePersistedState(persisted: unknown, version: number): Partial<PersistedState> {
+  let state = (persisted ?? {}) as Record<string, unknown>;
+  for (let from = version; from < PERSIST_VERSION; from++) {
+    const migrate = migrations[from];
+    // Nothing to upgrade from (or a newer app wrote this): start fresh
+    if (!migrate) return {};
+    state = migrate(state);
+  }
+  return version > PERSIST_VERSION ? {} : (state as Partial<PersistedState>);
+}
+
+/** Saved state back into the store, falling back to a view that has something to show */
+function restorePersistedState(saved: Partial<PersistedState> | undefined, current: AppState): AppState {
+  if (!saved) return current;
+
+  const queryTabs: QueryTab[] = saved.queryTabs?.length
+    ? saved.queryTabs.map(({ id, name, sql, currentStepIndex }) => ({
+        id,
+        name,
+        sql,
+        visualization: null,
+        currentStepIndex,
+        needsRerun: sql.trim() !== '',
+      }))
+    : current.queryTabs;
+  const active = queryTabs.find((tab) => tab.id === saved.activeTabId) ?? queryTabs[0];
+
+  // Tables come back once the session is up (see useInitSession), visualizations
+  // when their tab is first active (see useTabRestore)
+  return {
+    ...current,
+    setupSQL: saved.setupSQL ?? current.setupSQL,
+    queryTabs,
+    ...activateTab(active),
+    currentView: saved.currentView ?? current.currentView,
+  };
+}
+
+export const useAppStore = create<AppState>()(persist((set, get) => ({
   // Initial State
   sessionId: null,
   isSessionLoading: true,
@@ -127,9 +308,23 @@ export const useAppStore = create<AppState>()((set, get) => ({
   visualization: null,
   currentStepIndex: 0,
   
+  queryTabs: [initialTab],
+  activeTabId: initialTab.id,
+  
+  compareQueries: {
+    left: initialQuerySQL,
+    right: initialCompareSQL,
+  },
+  comparison: null,
+  
+  isPlaying: false,
+  playbackSpeed: 1,
+  playbackLoop: false,
+  
   isExecuting: false,
   executionError: null,
   executionMessage: null,
+  sqlError: null,
 
   // Actions
   setSessionId: (id) => set({ sessionId: id }),
@@ -148,7 +343,10 @@ export const useAppStore = create<AppState>()((set, get) => ({
   setVisualization: (vis) => set({ 
     visualization: vis, 
     currentStepIndex: 0,
-    currentView: vis ? 'visualization' : get().currentView
+    isPlaying: false,
+    currentView: vis ? 'visualization' : get().currentView,
+    // The tab has been run, so there is nothing left to restore
+    queryTabs: get().queryTabs.map((tab) => (tab.id === get().activeTabId ? { ...tab, needsRerun: false } : tab)),
   }),
   
   setCurrentStepIndex: (index) => set({ currentStepIndex: index }),
@@ -167,9 +365,110 @@ export const useAppStore = create<AppState>()((set, get) => ({
     }
   },
   
+  addQueryTab: () => {
+    const state = get();
+    const names = new Set(state.queryTabs.map((tab) => tab.name));
+    let number = state.queryTabs.length + 1;
+    while (names.has(`Query ${number}`)) number++;
+
+    const tab: QueryTab = { id: newTabId(), name: `Query ${number}`, sql: '', visualization: null, currentStepIndex: 0 };
+    set({ queryTabs: [...snapshotTabs(state), tab], ...activateTab(tab) });
+  },
+  
+  switchQueryTab: (id) => {
+    const state = get();
+    const tab = state.queryTabs.find((t) => t.id === id);
+    if (!tab || id === state.activeTabId) return;
+    set({ queryTabs: snapshotTabs(state), ...activateTab(tab) });
+  },
+  
+  closeQueryTab: (id) => {
+    const state = get();
+    if (state.queryTabs.length <= 1) return;
+    const index = state.queryTabs.findIndex((t) => t.id === id);
+    if (index === -1) return;
+
+    const remaining = snapshotTabs(state).filter((t) => t.id !== id);
+    if (id !== state.activeTabId) {
+      set({ queryTabs: remaining });
+      return;
+    }
+    // Closing the active tab brings up its right neighbour, or the left one at the end
+    set({ queryTabs: remaining, ...activateTab(remaining[Math.min(index, remaining.length - 1)]) });
+  },
+  
+  renameQueryTab: (id, name) => set({
+    queryTabs: get().queryTabs.map((tab) => (tab.id === id && name.trim() ? { ...tab, name: name.trim() } : tab)),
+  }),
+  
+  reorderQueryTabs: (ids) => {
+    const byId = new Map(get().queryTabs.map((tab) => [tab.id, tab]));
+    const ordered = ids.map((id) => byId.get(id)).filter((tab): tab is QueryTab => !!tab);
+    if (ordered.length === byId.size) set({ queryTabs: ordered });
+  },
+  
+  loadQueryTabs: (tabs, activeIndex, visualization = null) => {
+    if (tabs.length === 0) return;
+    const queryTabs: QueryTab[] = tabs.map((tab, index) => ({
+      id: newTabId(),
+      name: tab.name,
+      sql: tab.sql,
+      visualization: index === activeIndex ? visualization : null,
+      currentStepIndex: 0,
+    }));
+    set({ queryTabs, ...activateTab(queryTabs[activeIndex] ?? queryTabs[0]) });
+  },
+  
+  restoreTabVisualization: (id, visualization) => {
+    const state = get();
+    const tab = state.queryTabs.find((t) => t.id === id);
+    // Already run by hand (or closed) while the re-run was in flight
+    if (!tab?.needsRerun) return;
+
+    const lastStep = Math.max((visualization?.dataFlow.length ?? 0) - 1, 0);
+    if (id !== state.activeTabId) {
+      set({
+        queryTabs: state.queryTabs.map((t) =>
+          t.id === id
+            ? { ...t, visualization, currentStepIndex: Math.min(t.currentStepIndex, lastStep), needsRerun: false }
+            : t
+        ),
+      });
+      return;
+    }
+    set({
+      queryTabs: state.queryTabs.map((t) => (t.id === id ? { ...t, needsRerun: false } : t)),
+      visualization,
+      currentStepIndex: Math.min(state.currentStepIndex, lastStep),
+      // A visualization view with nothing to show falls back to the editor
+      currentView: !visualization && state.currentView === 'visualization' ? 'query' : state.currentView,
+    });
+  },
+  
+  setCompareQuery: (side, sql) => set({ compareQueries: { ...get().compareQueries, [side]: sql } }),
+  setComparison: (comparison) => set({ comparison }),
+  
+  setIsPlaying: (playing) => set({ isPlaying: playing }),
+  
+  togglePlayback: () => {
+    const { isPlaying, visualization, currentStepIndex } = get();
+    if (isPlaying) {
+      set({ isPlaying: false });
+      return;
+    }
+    if (!visualization || visualization.dataFlow.length < 2) return;
+    // Starting from the last step replays from the beginning
+    const atEnd = currentStepIndex >= visualization.dataFlow.length - 1;
+    set({ isPlaying: true, currentStepIndex: atEnd ? 0 : currentStepIndex });
+  },
+  
+  setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+  setPlaybackLoop: (loop) => set({ playbackLoop: loop }),
+  
   setIsExecuting: (executing) => set({ isExecuting: executing }),
   setExecutionError: (error) => set({ executionError: error }),
   setExecutionMessage: (message) => set({ executionMessage: message }),
+  setSqlError: (error) => set({ sqlError: error }),
   
   reset: () => set({
     tables: [],
@@ -177,10 +476,25 @@ export const useAppStore = create<AppState>()((set, get) => ({
     erDiagram: null,
     visualization: null,
     currentStepIndex: 0,
+    comparison: null,
+    isPlaying: false,
     executionError: null,
     executionMessage: null,
+    sqlError: null,
     currentView: 'setup',
   }),
+}), {
+  name: 'sql-viz-state',
+  version: PERSIST_VERSION,
+  storage: createJSONStorage(() => guardedStorage),
+  partialize: (state): PersistedState => ({
+    currentView: state.currentView,
+    setupSQL: state.setupSQL,
+    queryTabs: snapshotTabs(state).map(({ id, name, sql, currentStepIndex }) => ({ id, name, sql, currentStepIndex })),
+    activeTabId: state.activeTabId,
+  }),
+  migrate: migratePersistedState,
+  merge: (persisted, current) => restorePersistedState(persisted as Partial<PersistedState> | undefined, current),
 }));
 
 // ============================================
@@ -0,0 +1,194 @@
+/**
+ * Query Library Store - named queries with tags and folders, kept in localStorage
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { guardedStorage } from './storage';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  sql: string;
+  description?: string;
+  tags: string[];
+  /** Folder name; null keeps the query at the top level */
+  folder: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Shipped with the app; cannot be deleted or overwritten */
+  builtIn?: boolean;
+}
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'sql' | 'description' | 'tags' | 'folder'>;
+
+interface LibraryState {
+  queries: SavedQuery[];
+
+  /** Adds a query, or updates the one with the same name in the same folder */
+  saveQuery: (input: SavedQueryInput) => void;
+  deleteQuery: (id: string) => void;
+  importQueries: (queries: SavedQueryInput[]) => number;
+}
+
+export const BUILT_IN_FOLDER = 'Ví dụ';
+
+const BUILT_IN_QUERIES: SavedQuery[] = [
+  {
+    name: 'Lọc dữ liệu',
+    sql: 'SELECT * FROM users WHERE age > 25;',
+    description: 'Lọc dữ liệu dựa trên điều kiện',
+    tags: ['WHERE'],
+  },
+  {
+    name: 'Kết nối bảng',
+    sql: 'SELECT u.name, d.name as dept FROM users u JOIN departments d ON u.department_id = d.id;',
+    description: 'Kết nối dữ liệu từ nhiều bảng',
+    tags: ['JOIN'],
+  },
+  {
+    name: 'Tổng hợp dữ liệu',
+    sql: 'SELECT department_id, COUNT(*) as count FROM users GROUP BY department_id;',
+    description: 'Nhóm và đếm dữ liệu',
+    tags: ['GROUP BY'],
+  },
+  {
+    name: 'Sắp xếp kết quả',
+    sql: 'SELECT * FROM users ORDER BY age DESC LIMIT 3;',
+    description: 'Sắp xếp và giới hạn kết quả',
+    tags: ['ORDER BY', 'LIMIT'],
+  },
+].map((query, index) => ({
+  ...query,
+  id: `builtin-${index + 1}`,
+  folder: BUILT_IN_FOLDER,
+  createdAt: '1970-01-01T00:00:00.000Z',
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  builtIn: true,
+}));
+
+function newQueryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function sameSlot(query: SavedQuery, input: SavedQueryInput): boolean {
+  return !query.builtIn &&
+    query.folder === input.folder &&
+    query.name.trim().toLowerCase() === input.name.trim().toLowerCase();
+}
+
+function upsert(queries: SavedQuery[], input: SavedQueryInput): SavedQuery[] {
+  const now = new Date().toISOString();
+  const existing = queries.find((query) => sameSlot(query, input));
+  if (existing) {
+    return queries.map((query) => (query === existing ? { ...query, ...input, updatedAt: now } : query));
+  }
+  return [...queries, { ...input, id: newQueryId(), createdAt: now, updatedAt: now }];
+}
+
+// ============================================
+// Store
+// ============================================
+
+export const useLibraryStore = create<LibraryState>()(
+  persist(
+    (set, get) => ({
+      queries: [],
+
+      saveQuery: (input) => set({ queries: upsert(get().queries, input) }),
+
+      deleteQuery: (id) => set({ queries: get().queries.filter((query) => query.id !== id) }),
+
+      importQueries: (inputs) => {
+        set({ queries: inputs.reduce(upsert, get().queries) });
+        return inputs.length;
+      },
+    }),
+    {
+      name: 'sql-viz-library',
+      version: 1,
+      storage: createJSONStorage(() => guardedStorage),
+      partialize: (state) => ({ queries: state.queries }),
+    }
+  )
+);
+
+/** Built-in examples first, then the user's own queries */
+export function withBuiltInQueries(queries: SavedQuery[]): SavedQuery[] {
+  return [...BUILT_IN_QUERIES, ...queries];
+}
+
+// ============================================
+// Export / Import
+// ============================================
+
+const EXPORT_VERSION = 1;
+
+export function exportLibrary(queries: SavedQuery[]): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      queries: queries
+        .filter((query) => !query.builtIn)
+        .map(({ name, sql, description, tags, folder }) => ({ name, sql, description, tags, folder })),
+    },
+    null,
+    2
+  );
+}
+
+/** Validates an exported library file; throws with a message naming the first problem */
+export function parseLibraryFile(text: string): SavedQueryInput[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File không phải JSON hợp lệ');
+  }
+
+  const file = data as { version?: unknown; queries?: unknown } | null;
+  if (typeof file !== 'object' || file === null || !Array.isArray(file.queries)) {
+    throw new Error('File không chứa danh sách query ("queries")');
+  }
+  if (typeof file.version === 'number' && file.version > EXPORT_VERSION) {
+    throw new Error(`File được xuất từ phiên bản mới hơn (v${file.version})`);
+  }
+
+  return file.queries.map((raw: unknown, index: number): SavedQueryInput => {
+    const query = raw as Partial<Record<keyof SavedQueryInput, unknown>> | null;
+    const position = `Query #${index + 1}`;
+    if (typeof query !== 'object' || query === null) {
+      throw new Error(`${position} không hợp lệ`);
+    }
+    if (typeof query.name !== 'string' || !query.name.trim()) {
+      throw new Error(`${position} thiếu tên`);
+    }
+    if (typeof query.sql !== 'string' || !query.sql.trim()) {
+      throw new Error(`${position} (${query.name}) thiếu SQL`);
+    }
+    if (query.tags !== undefined && (!Array.isArray(query.tags) || query.tags.some((tag) => typeof tag !== 'string'))) {
+      throw new Error(`${position} (${query.name}) có tags không hợp lệ`);
+    }
+    if (query.folder !== undefined && query.folder !== null && typeof query.folder !== 'string') {
+      throw new Error(`${position} (${query.name}) có thư mục không hợp lệ`);
+    }
+
+    return {
+      name: query.name.trim(),
+      sql: query.sql,
+      description: typeof query.description === 'string' ? query.description : undefined,
+      tags: (query.tags as string[] | undefined) ?? [],
+      folder: typeof query.folder === 'string' && query.folder.trim() ? query.folder.trim() : null,
+    };
+  });
+}
+
+/** Splits "a, b,  c" into distinct tags */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean))];
+}
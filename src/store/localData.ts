@@ -0,0 +1,20 @@
+/**
+ * Everything the app keeps in localStorage, and a way to wipe it
+ */
+
+import { clearStoredSession } from '@/api/client';
+import { useAppStore } from '@/store';
+import { useHistoryStore } from '@/store/history';
+import { useLibraryStore } from '@/store/library';
+
+/**
+ * Removes saved editor state, tabs, history, the query library and the
+ * session id, then reloads so every store starts from its defaults.
+ */
+export function clearLocalData(): void {
+  useAppStore.persist.clearStorage();
+  useHistoryStore.persist.clearStorage();
+  useLibraryStore.persist.clearStorage();
+  clearStoredSession();
+  window.location.reload();
+}
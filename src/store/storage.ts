@@ -0,0 +1,21 @@
+/**
+ * Storage shared by the persisted stores
+ */
+
+import type { StateStorage } from 'zustand/middleware';
+
+/**
+ * localStorage that drops a write it cannot make (quota exceeded, storage
+ * disabled) instead of throwing out of every store update
+ */
+export const guardedStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(name),
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (error) {
+      console.warn('Không thể lưu trạng thái vào localStorage:', error);
+    }
+  },
+  removeItem: (name) => localStorage.removeItem(name),
+};
@@ -0,0 +1,38 @@
+/**
+ * Toast Store - short-lived notices shown in the corner of the screen
+ */
+
+import { create } from 'zustand';
+
+export type ToastKind = 'info' | 'success' | 'error';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  title: string;
+  message?: string;
+}
+
+interface ToastState {
+  toasts: Toast[];
+
+  dismissToast: (id: number) => void;
+}
+
+const DEFAULT_DURATION = 6000;
+
+let nextToastId = 1;
+
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+
+  dismissToast: (id) => set({ toasts: get().toasts.filter((toast) => toast.id !== id) }),
+}));
+
+/** Shows a toast from anywhere, including outside React; it hides itself after `duration` ms */
+export function showToast(toast: Omit<Toast, 'id'>, duration = DEFAULT_DURATION): number {
+  const id = nextToastId++;
+  useToastStore.setState((state) => ({ toasts: [...state.toasts, { ...toast, id }] }));
+  setTimeout(() => useToastStore.getState().dismissToast(id), duration);
+  return id;
+}